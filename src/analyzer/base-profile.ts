@@ -0,0 +1,144 @@
+/**
+ * Base gradient profile analyser.
+ *
+ * Samples the image's colour profile along the dominant gradient axis
+ * (perpendicular to the flow direction found by the shape analyser) and
+ * simplifies it into a short list of real colour stops with positions.
+ * The generator turns these into a multi-stop `linear-gradient()` base,
+ * keeping more or fewer stops depending on fidelity.
+ */
+
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { rgbToHex, colorDistance } from "../utils/color";
+import { BaseProfile, GradientStop } from "../types";
+import { dominantGradientAngle } from "./shape-analyzer";
+
+/** Number of bins the profile is sampled into along the axis. */
+const PROFILE_BINS = 32;
+
+/** Maximum stops kept after simplification. */
+const MAX_STOPS = 8;
+
+/** Stop inserting once the worst interpolation error drops below this (RGB units). */
+const MIN_STOP_ERROR = 6;
+
+interface ProfileSample {
+  position: number;
+  rgb: [number, number, number];
+}
+
+/**
+ * Analyse the colour profile along the dominant gradient axis.
+ */
+export function analyzeBaseProfile(img: RawImageData): BaseProfile {
+  const gradAngle = dominantGradientAngle(img);
+  const theta = (gradAngle * Math.PI) / 180;
+  const samples = sampleProfile(img, Math.cos(theta), Math.sin(theta));
+  const stops = samples.length > 0 ? simplifyProfile(samples) : [];
+
+  // Image angle (0 = right, 90 = down) → CSS angle (0 = to top, 90 = to right)
+  const angle = ((Math.round(gradAngle + 90) % 360) + 360) % 360;
+
+  return { angle, stops };
+}
+
+/* ────────────────────────────────────────────────────────
+   Profile sampling
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Project every pixel onto the axis (ux, uy) and average colour per bin.
+ * Projections are normalised by the corner extremes, which matches how
+ * CSS sizes the gradient line for a given angle.
+ */
+function sampleProfile(
+  img: RawImageData,
+  ux: number,
+  uy: number
+): ProfileSample[] {
+  const cx = (img.width - 1) / 2;
+  const cy = (img.height - 1) / 2;
+  const halfLength = Math.abs(cx * ux) + Math.abs(cy * uy) || 1;
+
+  const sums = Array.from({ length: PROFILE_BINS }, () => [0, 0, 0, 0]);
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      if (!isOpaque(img, x, y)) continue;
+      const proj = ((x - cx) * ux + (y - cy) * uy) / halfLength; // -1..1
+      const t = (proj + 1) / 2;
+      const bin = Math.min(PROFILE_BINS - 1, Math.max(0, Math.floor(t * PROFILE_BINS)));
+      const [r, g, b] = getPixel(img, x, y);
+      sums[bin][0] += r;
+      sums[bin][1] += g;
+      sums[bin][2] += b;
+      sums[bin][3]++;
+    }
+  }
+
+  const samples: ProfileSample[] = [];
+  for (let i = 0; i < PROFILE_BINS; i++) {
+    const [r, g, b, count] = sums[i];
+    if (count === 0) continue;
+    samples.push({
+      position: (i + 0.5) / PROFILE_BINS,
+      rgb: [r / count, g / count, b / count],
+    });
+  }
+
+  return samples;
+}
+
+/* ────────────────────────────────────────────────────────
+   Simplification
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Greedy piecewise-linear simplification: start from the two end samples
+ * and repeatedly insert the sample that linear interpolation between its
+ * neighbouring stops reproduces worst.  Each stop's `significance` is the
+ * error it removed, so a consumer can drop the least significant stops.
+ */
+function simplifyProfile(samples: ProfileSample[]): GradientStop[] {
+  const selected = new Map<number, number>(); // sample index → significance
+  selected.set(0, 1);
+  selected.set(samples.length - 1, 1);
+
+  while (selected.size < Math.min(MAX_STOPS, samples.length)) {
+    const indices = [...selected.keys()].sort((a, b) => a - b);
+    let worstIdx = -1;
+    let worstErr = 0;
+
+    for (let s = 0; s < indices.length - 1; s++) {
+      const lo = samples[indices[s]];
+      const hi = samples[indices[s + 1]];
+      for (let i = indices[s] + 1; i < indices[s + 1]; i++) {
+        const t = (samples[i].position - lo.position) / (hi.position - lo.position || 1);
+        const expected: [number, number, number] = [
+          lo.rgb[0] + (hi.rgb[0] - lo.rgb[0]) * t,
+          lo.rgb[1] + (hi.rgb[1] - lo.rgb[1]) * t,
+          lo.rgb[2] + (hi.rgb[2] - lo.rgb[2]) * t,
+        ];
+        const err = colorDistance(samples[i].rgb, expected);
+        if (err > worstErr) {
+          worstErr = err;
+          worstIdx = i;
+        }
+      }
+    }
+
+    if (worstIdx < 0 || worstErr < MIN_STOP_ERROR) break;
+    selected.set(worstIdx, Math.min(1, worstErr / 255));
+  }
+
+  return [...selected.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([idx, significance]) => {
+      const rgb = samples[idx].rgb.map(Math.round) as [number, number, number];
+      return {
+        hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
+        rgb,
+        position: Math.round(samples[idx].position * 100) / 100,
+        significance: Math.round(significance * 100) / 100,
+      };
+    });
+}
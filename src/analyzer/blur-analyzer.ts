@@ -3,23 +3,52 @@
  *
  * Estimates how blurred the image is using a Laplacian-based approach.
  * A lower Laplacian variance indicates a blurrier image.
+ *
+ * Local blur is measured at edges by re-blurring: an edge of Gaussian
+ * width σ loses gradient in a known ratio when smoothed twice with
+ * different kernels, which gives σ per edge pixel.  These samples feed a
+ * coarse depth-of-field map and a measured blur radius per colour region.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
-import { BlurInfo } from "../types";
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { ClusterAssignments, TRANSPARENT } from "./edge-sharpness";
+import { BlurInfo, BlurDepthMap, ColorRegion } from "../types";
+
+/** Widths (σ, px) of the two re-blur kernels. */
+const SIGMA_A = 1;
+const SIGMA_B = 2;
+
+/** Minimum smoothed gradient (luminance units per px) for an edge sample. */
+const MIN_EDGE_GRADIENT = 3;
+
+/** Largest σ reported (analysis px); flatter edges can't be told apart. */
+const MAX_SIGMA = 12;
+
+/** Cells per side of the depth-of-field map. */
+const DEPTH_GRID = 4;
+
+/** Edge samples a cell or region needs before its blur is reported. */
+const MIN_EDGE_SAMPLES = 5;
 
 /**
  * Analyse the blur level of an image using the variance of the Laplacian.
  *
  * The Laplacian highlights edges. In a blurry image edges are soft so
  * the Laplacian variance is low.  In a sharp image it is high.
+ *
+ * Also returns the per-edge blur samples behind the depth map, so
+ * `computeRegionBlur` can reuse them instead of measuring again.
  */
-export function analyzeBlur(img: RawImageData): BlurInfo {
+export function analyzeBlur(
+  img: RawImageData
+): { blur: BlurInfo; edges: EdgeSample[] } {
   const laplacianValues: number[] = [];
 
   // Apply a simple 3×3 Laplacian kernel: [0 1 0; 1 -4 1; 0 1 0]
+  // (skipping kernels that touch transparent pixels)
   for (let y = 1; y < img.height - 1; y++) {
     for (let x = 1; x < img.width - 1; x++) {
+      if (!kernelOpaque(img, x, y)) continue;
       const center = pixelLuminance(img, x, y);
       const top = pixelLuminance(img, x, y - 1);
       const bottom = pixelLuminance(img, x, y + 1);
@@ -32,7 +61,7 @@ export function analyzeBlur(img: RawImageData): BlurInfo {
   }
 
   // Compute variance
-  const n = laplacianValues.length;
+  const n = laplacianValues.length || 1;
   const mean = laplacianValues.reduce((a, b) => a + b, 0) / n;
   const variance =
     laplacianValues.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
@@ -47,12 +76,214 @@ export function analyzeBlur(img: RawImageData): BlurInfo {
   else if (normalisedVariance > 0.1) level = "medium";
   else level = "heavy";
 
+  const edges = measureEdgeBlur(img);
+  return {
+    blur: {
+      level,
+      variance: Math.round(normalisedVariance * 100) / 100,
+      depthMap: buildDepthMap(img, edges),
+    },
+    edges,
+  };
+}
+
+/**
+ * Set each region's `blurRadius` to the median of the edge blur samples
+ * (from `analyzeBlur`) along its boundary.  Edges are shared, so a
+ * sample counts towards the regions on both sides of it.  Regions
+ * without enough edge samples are left unmeasured.
+ *
+ * Mutates each ColorRegion in place.
+ */
+export function computeRegionBlur(
+  img: RawImageData,
+  colors: ColorRegion[],
+  assignments: ClusterAssignments,
+  edges: EdgeSample[]
+): void {
+  const longEdge = Math.max(img.width, img.height);
+  const perRegion: number[][] = colors.map(() => []);
+
+  for (const sample of edges) {
+    const sides = new Set<number>();
+    for (const step of [-1, 1]) {
+      const x = Math.round(sample.x + sample.nx * step * 1.5);
+      const y = Math.round(sample.y + sample.ny * step * 1.5);
+      if (x < 0 || x >= img.width || y < 0 || y >= img.height) continue;
+      const region = assignments[y * img.width + x];
+      if (region !== TRANSPARENT) sides.add(region);
+    }
+    for (const region of sides) perRegion[region]?.push(sample.sigma);
+  }
+
+  colors.forEach((c, i) => {
+    c.blurRadius =
+      perRegion[i].length >= MIN_EDGE_SAMPLES
+        ? Math.round((median(perRegion[i]) / longEdge) * 1000) / 1000
+        : undefined;
+  });
+}
+
+/* ────────────────────────────────────────────────────────
+   Edge blur estimation
+   ──────────────────────────────────────────────────────── */
+
+export interface EdgeSample {
+  x: number;
+  y: number;
+  /** Unit gradient direction (across the edge) */
+  nx: number;
+  ny: number;
+  /** Estimated Gaussian blur of the edge, analysis px */
+  sigma: number;
+}
+
+/**
+ * Estimate the blur σ at every edge pixel.  Smoothing an edge of width σ
+ * with a kernel of width s scales its peak gradient by 1/√(σ² + s²), so
+ * the ratio R of the gradients after σa and σb smoothing gives
+ * σ² = (σb² − R²σa²) / (R² − 1).  Edges are gradient maxima across the
+ * edge direction, so ramps are sampled once at their steepest point.
+ */
+function measureEdgeBlur(img: RawImageData): EdgeSample[] {
+  const w = img.width;
+  const h = img.height;
+  const lum = new Float64Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      lum[y * w + x] = isOpaque(img, x, y) ? pixelLuminance(img, x, y) : NaN;
+    }
+  }
+  const a = gaussianBlur(lum, w, h, SIGMA_A);
+  const b = gaussianBlur(lum, w, h, SIGMA_B);
+
+  const gradient = (map: Float64Array, x: number, y: number) => ({
+    gx: (map[y * w + x + 1] - map[y * w + x - 1]) / 2,
+    gy: (map[(y + 1) * w + x] - map[(y - 1) * w + x]) / 2,
+  });
+  const magnitude = (x: number, y: number) => {
+    const { gx, gy } = gradient(a, x, y);
+    return Math.hypot(gx, gy);
+  };
+
+  const samples: EdgeSample[] = [];
+  for (let y = 2; y < h - 2; y++) {
+    for (let x = 2; x < w - 2; x++) {
+      const { gx, gy } = gradient(a, x, y);
+      const mag = Math.hypot(gx, gy);
+      if (!(mag >= MIN_EDGE_GRADIENT)) continue; // also skips NaN
+
+      // Non-maximum suppression along the gradient direction
+      const nx = gx / mag;
+      const ny = gy / mag;
+      const sx = Math.round(nx);
+      const sy = Math.round(ny);
+      const ahead = magnitude(x + sx, y + sy);
+      const behind = magnitude(x - sx, y - sy);
+      if (!(mag >= ahead && mag > behind)) continue;
+
+      const gb = gradient(b, x, y);
+      const ratio = mag / Math.hypot(gb.gx, gb.gy);
+      if (!isFinite(ratio)) continue;
+
+      let sigma: number;
+      if (ratio <= 1) sigma = MAX_SIGMA;
+      else {
+        const variance =
+          (SIGMA_B ** 2 - ratio ** 2 * SIGMA_A ** 2) / (ratio ** 2 - 1);
+        sigma = Math.min(MAX_SIGMA, Math.sqrt(Math.max(0, variance)));
+      }
+      samples.push({ x, y, nx, ny, sigma });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Separable Gaussian blur that ignores NaN (transparent) pixels; they
+ * stay NaN so gradients across transparency edges are never measured.
+ */
+function gaussianBlur(
+  src: Float64Array,
+  w: number,
+  h: number,
+  sigma: number
+): Float64Array {
+  const radius = Math.ceil(sigma * 3);
+  const kernel: number[] = [];
+  for (let i = -radius; i <= radius; i++) {
+    kernel.push(Math.exp(-(i * i) / (2 * sigma * sigma)));
+  }
+
+  const pass = (input: Float64Array, dx: number, dy: number) => {
+    const out = new Float64Array(w * h);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        if (isNaN(src[y * w + x])) {
+          out[y * w + x] = NaN;
+          continue;
+        }
+        let sum = 0;
+        let weight = 0;
+        for (let i = -radius; i <= radius; i++) {
+          const nx = x + i * dx;
+          const ny = y + i * dy;
+          if (nx < 0 || nx >= w || ny < 0 || ny >= h) continue;
+          const v = input[ny * w + nx];
+          if (isNaN(v)) continue;
+          sum += v * kernel[i + radius];
+          weight += kernel[i + radius];
+        }
+        out[y * w + x] = sum / weight;
+      }
+    }
+    return out;
+  };
+
+  return pass(pass(src, 1, 0), 0, 1);
+}
+
+/**
+ * Median edge blur per cell of a DEPTH_GRID × DEPTH_GRID map, as a
+ * fraction of the long edge.  Cells without enough edges are null.
+ */
+function buildDepthMap(img: RawImageData, samples: EdgeSample[]): BlurDepthMap {
+  const cells: number[][] = Array.from({ length: DEPTH_GRID * DEPTH_GRID }, () => []);
+  for (const s of samples) {
+    const col = Math.min(DEPTH_GRID - 1, Math.floor((s.x / img.width) * DEPTH_GRID));
+    const row = Math.min(DEPTH_GRID - 1, Math.floor((s.y / img.height) * DEPTH_GRID));
+    cells[row * DEPTH_GRID + col].push(s.sigma);
+  }
+
+  const longEdge = Math.max(img.width, img.height);
   return {
-    level,
-    variance: Math.round(normalisedVariance * 100) / 100,
+    columns: DEPTH_GRID,
+    rows: DEPTH_GRID,
+    radius: cells.map((c) =>
+      c.length >= MIN_EDGE_SAMPLES
+        ? Math.round((median(c) / longEdge) * 1000) / 1000
+        : null
+    ),
   };
 }
 
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** True when (x, y) and its 4-connected neighbours are all opaque. */
+function kernelOpaque(img: RawImageData, x: number, y: number): boolean {
+  return (
+    isOpaque(img, x, y) &&
+    isOpaque(img, x, y - 1) &&
+    isOpaque(img, x, y + 1) &&
+    isOpaque(img, x - 1, y) &&
+    isOpaque(img, x + 1, y)
+  );
+}
+
 function pixelLuminance(img: RawImageData, x: number, y: number): number {
   const [r, g, b] = getPixel(img, x, y);
   return 0.299 * r + 0.587 * g + 0.114 * b;
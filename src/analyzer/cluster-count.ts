@@ -0,0 +1,185 @@
+/**
+ * Automatic cluster-count selection ("--clusters auto").
+ *
+ * Runs the seeded k-means colour extractor for every k within bounds set
+ * by the fidelity level and scores each clustering with the mean
+ * silhouette coefficient over a fixed pixel subsample.  The k with the
+ * highest score wins; ties go to the smaller k (fewer, cleaner layers).
+ */
+
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { colorSpaceRange, toColorSpace } from "../utils/color";
+import {
+  extractClusters,
+  ClusterCentroid,
+  ExtractColorsOptions,
+} from "./color-extractor";
+import { ColorRegion, FidelityLevel, ClusterSelection } from "../types";
+
+/** Maximum pixels scored per k — silhouette is O(n²). */
+const MAX_SAMPLES = 400;
+
+/** Map fidelity to the [min, max] range of k values to evaluate. */
+export function clusterBoundsForFidelity(
+  fidelity: FidelityLevel
+): [number, number] {
+  switch (fidelity) {
+    case "exact":
+      return [3, 10];
+    case "vibe":
+      return [2, 7];
+    case "inspired":
+      return [2, 4];
+  }
+}
+
+/** Feature vector: clustering-space colour plus scaled position. */
+type Feature = number[];
+
+/**
+ * Pick the cluster count with the best silhouette score.
+ * Returns the winning colour regions and their exact centroids alongside
+ * the selection report so the caller doesn't need to re-run k-means.
+ * Scoring uses the same colour space, spatial weight and centroids as
+ * the clustering itself.
+ */
+export function selectClusterCount(
+  img: RawImageData,
+  bounds: [number, number],
+  options: ExtractColorsOptions = {}
+): {
+  colors: ColorRegion[];
+  centroids: ClusterCentroid[];
+  selection: ClusterSelection;
+} {
+  const features = featureFn(options);
+  const samples = samplePixels(img, features.ofPixel);
+
+  let best: {
+    colors: ColorRegion[];
+    centroids: ClusterCentroid[];
+    score: number;
+  } | null = null;
+
+  for (let k = bounds[0]; k <= bounds[1]; k++) {
+    const { colors, centroids } = extractClusters(img, k, options);
+    // Empty clusters are dropped, so small images may repeat a clustering
+    if (best && colors.length === best.colors.length) continue;
+
+    const score = silhouetteScore(samples, centroids.map(features.ofCentroid));
+    if (!best || score > best.score) {
+      best = { colors, centroids, score };
+    }
+  }
+
+  // bounds[0] <= bounds[1] guarantees at least one evaluation
+  const chosen = best!;
+  return {
+    colors: chosen.colors,
+    centroids: chosen.centroids,
+    selection: {
+      k: chosen.colors.length,
+      score: Math.round(chosen.score * 100) / 100,
+      range: bounds,
+    },
+  };
+}
+
+/* ────────────────────────────────────────────────────────
+   Silhouette scoring
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Build the feature mappings matching the extractor's distance, for
+ * pixels and for cluster centroids (already in the clustering space).
+ */
+function featureFn(options: ExtractColorsOptions): {
+  ofPixel: (rgb: [number, number, number], x: number, y: number) => Feature;
+  ofCentroid: (c: ClusterCentroid) => Feature;
+} {
+  const colorSpace = options.colorSpace ?? "rgb";
+  const spatialScale = (options.spatialWeight ?? 0) * colorSpaceRange(colorSpace);
+  const feature = (c: [number, number, number], x: number, y: number): Feature =>
+    spatialScale > 0 ? [...c, x * spatialScale, y * spatialScale] : [...c];
+  return {
+    ofPixel: (rgb, x, y) => feature(toColorSpace(rgb, colorSpace), x, y),
+    ofCentroid: (c) => feature(c.color, c.x, c.y),
+  };
+}
+
+/** Evenly strided subsample of opaque pixels, converted to feature vectors. */
+function samplePixels(
+  img: RawImageData,
+  featureOf: ReturnType<typeof featureFn>["ofPixel"]
+): Feature[] {
+  const total = img.width * img.height;
+  const step = Math.max(1, Math.floor(total / MAX_SAMPLES));
+  const samples: Feature[] = [];
+  for (let i = 0; i < total; i += step) {
+    const x = i % img.width;
+    const y = Math.floor(i / img.width);
+    if (!isOpaque(img, x, y)) continue;
+    samples.push(
+      featureOf(getPixel(img, x, y), x / (img.width - 1), y / (img.height - 1))
+    );
+  }
+  return samples;
+}
+
+function distance(a: Feature, b: Feature): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+/**
+ * Mean silhouette coefficient, -1..1.  Higher = tighter, better
+ * separated clusters.  A single cluster scores 0 by convention.
+ */
+function silhouetteScore(samples: Feature[], centroids: Feature[]): number {
+  if (centroids.length < 2) return 0;
+
+  // Label each sample with its nearest centroid
+  const labels = samples.map((s) => {
+    let bestDist = Infinity;
+    let bestIdx = 0;
+    for (let c = 0; c < centroids.length; c++) {
+      const d = distance(s, centroids[c]);
+      if (d < bestDist) {
+        bestDist = d;
+        bestIdx = c;
+      }
+    }
+    return bestIdx;
+  });
+
+  const sizes = new Float64Array(centroids.length);
+  for (const l of labels) sizes[l]++;
+
+  let total = 0;
+  const sums = new Float64Array(centroids.length);
+  for (let i = 0; i < samples.length; i++) {
+    const own = labels[i];
+    if (sizes[own] < 2) continue; // singleton clusters contribute 0
+
+    sums.fill(0);
+    for (let j = 0; j < samples.length; j++) {
+      if (i === j) continue;
+      sums[labels[j]] += distance(samples[i], samples[j]);
+    }
+
+    // a = mean intra-cluster distance, b = nearest other-cluster mean
+    const a = sums[own] / (sizes[own] - 1);
+    let b = Infinity;
+    for (let c = 0; c < centroids.length; c++) {
+      if (c === own || sizes[c] === 0) continue;
+      b = Math.min(b, sums[c] / sizes[c]);
+    }
+    if (!isFinite(b)) continue;
+
+    const denom = Math.max(a, b);
+    total += denom > 0 ? (b - a) / denom : 0;
+  }
+
+  return samples.length > 0 ? total / samples.length : 0;
+}
@@ -6,11 +6,20 @@
  *
  * Uses a deterministic seeded PRNG so the same image always produces
  * the same clusters (important for stable shape analysis).
+ *
+ * An optional spatial weight adds normalised x/y to the feature vector
+ * (SLIC-style), producing regions that are compact in both colour and
+ * space rather than scattered wherever a colour happens to recur.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
-import { rgbToHex, colorDistance } from "../utils/color";
-import { ColorRegion } from "../types";
+import { RawImageData, aspectFrame, getPixel, isOpaque } from "../utils/image";
+import {
+  rgbToHex,
+  colorDistance,
+  colorSpaceRange,
+  toColorSpace,
+} from "../utils/color";
+import { ColorRegion, ColorSpace } from "../types";
 
 /**
  * Simple seeded PRNG (mulberry32). Deterministic given the same seed.
@@ -43,6 +52,8 @@ interface PixelSample {
   b: number;
   x: number; // normalised 0-1
   y: number; // normalised 0-1
+  /** Colour coordinates in the clustering colour space */
+  c: [number, number, number];
 }
 
 interface Centroid {
@@ -51,23 +62,95 @@ interface Centroid {
   b: number;
   x: number;
   y: number;
+  c: [number, number, number];
+}
+
+export interface ExtractColorsOptions {
+  /** Maximum k-means iterations (default 20). */
+  maxIter?: number;
+  /** Colour space for cluster distances (default "rgb"). */
+  colorSpace?: ColorSpace;
+  /** Weight of pixel position in the k-means distance, 0 = colour only
+   *  (default).  At 1, crossing the whole image costs as much as a
+   *  full-range colour difference. */
+  spatialWeight?: number;
+}
+
+/**
+ * Where a cluster converged, before rounding into its ColorRegion: the
+ * mean colour in the clustering colour space and the mean position.
+ * Re-assigning pixels against these reproduces the k-means labels; the
+ * region's rounded RGB converted back would drift, most in OKLab/Lab.
+ */
+export interface ClusterCentroid {
+  /** Colour coordinates in the clustering colour space */
+  color: [number, number, number];
+  /** Normalised 0-1 */
+  x: number;
+  /** Normalised 0-1 */
+  y: number;
+}
+
+/**
+ * Distance between a sample and a centroid in the combined feature space:
+ * colour coordinates plus position scaled by `spatialScale`.
+ */
+function featureDistance(
+  s: PixelSample,
+  cent: Centroid,
+  spatialScale: number
+): number {
+  const colorDist = colorDistance(s.c, cent.c);
+  if (spatialScale === 0) return colorDist;
+  const posDistSq = (s.x - cent.x) ** 2 + (s.y - cent.y) ** 2;
+  return Math.sqrt(colorDist * colorDist + spatialScale * spatialScale * posDistSq);
 }
 
 /**
  * Run k-means clustering on image pixels with spatial tracking.
  * @param img  Raw image data
  * @param k    Number of clusters (4-8 typical)
- * @param maxIter  Maximum iterations
+ * @param options  Iteration limit and clustering colour space
  */
+export function extractColors(
+  img: RawImageData,
+  k?: number,
+  options?: ExtractColorsOptions
+): ColorRegion[];
+/** @deprecated Pass the iteration limit as `{ maxIter }`. */
+export function extractColors(
+  img: RawImageData,
+  k: number,
+  maxIter: number
+): ColorRegion[];
 export function extractColors(
   img: RawImageData,
   k: number = 5,
-  maxIter: number = 20
+  options: ExtractColorsOptions | number = {}
 ): ColorRegion[] {
-  // 1. Sample all pixels with their positions
+  const opts = typeof options === "number" ? { maxIter: options } : options;
+  return extractClusters(img, k, opts).colors;
+}
+
+/**
+ * Run k-means like `extractColors`, also returning each region's exact
+ * centroid (same order) for callers that re-assign pixels to the
+ * clusters.
+ */
+export function extractClusters(
+  img: RawImageData,
+  k: number = 5,
+  options: ExtractColorsOptions = {}
+): { colors: ColorRegion[]; centroids: ClusterCentroid[] } {
+  const maxIter = options.maxIter ?? 20;
+  const colorSpace = options.colorSpace ?? "rgb";
+  const spatialScale = (options.spatialWeight ?? 0) * colorSpaceRange(colorSpace);
+
+  // 1. Sample all opaque pixels with their positions
   const samples: PixelSample[] = [];
   for (let y = 0; y < img.height; y++) {
     for (let x = 0; x < img.width; x++) {
+      if (!isOpaque(img, x, y)) continue;
       const [r, g, b] = getPixel(img, x, y);
       samples.push({
         r,
@@ -75,13 +158,15 @@ export function extractColors(
         b,
         x: x / (img.width - 1),
         y: y / (img.height - 1),
+        c: toColorSpace([r, g, b], colorSpace),
       });
     }
   }
+  if (samples.length === 0) return { colors: [], centroids: [] };
 
   // 2. Initialise centroids using k-means++ seeding (deterministic)
   const rng = createRng(seedFromImage(img));
-  const centroids = kMeansPlusPlusInit(samples, k, rng);
+  const centroids = kMeansPlusPlusInit(samples, k, rng, spatialScale);
 
   // 3. Iterate: assign pixels to nearest centroid, recompute centroids
   const assignments = new Int32Array(samples.length);
@@ -89,16 +174,13 @@ export function extractColors(
   for (let iter = 0; iter < maxIter; iter++) {
     let changed = false;
 
-    // Assign each pixel to nearest centroid (by color distance only)
+    // Assign each pixel to nearest centroid (colour, plus position when weighted)
     for (let i = 0; i < samples.length; i++) {
       const s = samples[i];
       let bestDist = Infinity;
       let bestIdx = 0;
       for (let c = 0; c < centroids.length; c++) {
-        const d = colorDistance(
-          [s.r, s.g, s.b],
-          [centroids[c].r, centroids[c].g, centroids[c].b]
-        );
+        const d = featureDistance(s, centroids[c], spatialScale);
         if (d < bestDist) {
           bestDist = d;
           bestIdx = c;
@@ -119,6 +201,9 @@ export function extractColors(
       b: 0,
       x: 0,
       y: 0,
+      c0: 0,
+      c1: 0,
+      c2: 0,
       count: 0,
     }));
     for (let i = 0; i < samples.length; i++) {
@@ -129,6 +214,9 @@ export function extractColors(
       sums[a].b += s.b;
       sums[a].x += s.x;
       sums[a].y += s.y;
+      sums[a].c0 += s.c[0];
+      sums[a].c1 += s.c[1];
+      sums[a].c2 += s.c[2];
       sums[a].count++;
     }
     for (let c = 0; c < centroids.length; c++) {
@@ -138,6 +226,11 @@ export function extractColors(
       centroids[c].b = sums[c].b / sums[c].count;
       centroids[c].x = sums[c].x / sums[c].count;
       centroids[c].y = sums[c].y / sums[c].count;
+      centroids[c].c = [
+        sums[c].c0 / sums[c].count,
+        sums[c].c1 / sums[c].count,
+        sums[c].c2 / sums[c].count,
+      ];
     }
   }
 
@@ -148,7 +241,9 @@ export function extractColors(
   }
 
   const totalPixels = samples.length;
-  const results: ColorRegion[] = [];
+  const results: Array<{ region: ColorRegion; centroid: ClusterCentroid }> = [];
+  const frame = aspectFrame(img);
+  const maxSpread = Math.hypot(frame.sx, frame.sy) / 2;
 
   for (let c = 0; c < centroids.length; c++) {
     const pixels = clusterPixels[c];
@@ -157,12 +252,15 @@ export function extractColors(
     const weight = pixels.length / totalPixels;
     const cent = centroids[c];
 
-    // Spread = average distance of cluster pixels from centroid position
+    // Spread = average distance of cluster pixels from centroid position,
+    // measured in isotropic units so wide images aren't skewed
     let spreadSum = 0;
     for (const p of pixels) {
-      spreadSum += Math.sqrt((p.x - cent.x) ** 2 + (p.y - cent.y) ** 2);
+      spreadSum += Math.sqrt(
+        ((p.x - cent.x) * frame.sx) ** 2 + ((p.y - cent.y) * frame.sy) ** 2
+      );
     }
-    const spread = Math.min(1, (spreadSum / pixels.length) / 0.707); // normalise by max possible distance
+    const spread = Math.min(1, (spreadSum / pixels.length) / maxSpread); // normalise by max possible distance
 
     const rgb: [number, number, number] = [
       Math.round(cent.r),
@@ -171,41 +269,48 @@ export function extractColors(
     ];
 
     results.push({
-      hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
-      rgb,
-      position: {
-        x: Math.round(cent.x * 100) / 100,
-        y: Math.round(cent.y * 100) / 100,
+      region: {
+        hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
+        rgb,
+        position: {
+          x: Math.round(cent.x * 100) / 100,
+          y: Math.round(cent.y * 100) / 100,
+        },
+        weight: Math.round(weight * 100) / 100,
+        spread: Math.round(spread * 100) / 100,
+        edgeSharpness: 0, // computed later by edge-sharpness analyser
       },
-      weight: Math.round(weight * 100) / 100,
-      spread: Math.round(spread * 100) / 100,
-      edgeSharpness: 0, // computed later by edge-sharpness analyser
+      centroid: { color: cent.c, x: cent.x, y: cent.y },
     });
   }
 
   // Sort by weight descending
-  results.sort((a, b) => b.weight - a.weight);
-  return results;
+  results.sort((a, b) => b.region.weight - a.region.weight);
+  return {
+    colors: results.map((r) => r.region),
+    centroids: results.map((r) => r.centroid),
+  };
 }
 
 /** K-means++ initialisation: pick initial centroids spread apart. */
 function kMeansPlusPlusInit(
   samples: PixelSample[],
   k: number,
-  rng: () => number
+  rng: () => number,
+  spatialScale: number
 ): Centroid[] {
   const centroids: Centroid[] = [];
 
   // Pick the first centroid deterministically
   const first = samples[Math.floor(rng() * samples.length)];
-  centroids.push({ r: first.r, g: first.g, b: first.b, x: first.x, y: first.y });
+  centroids.push({ r: first.r, g: first.g, b: first.b, x: first.x, y: first.y, c: first.c });
 
   for (let c = 1; c < k; c++) {
     // For each sample, compute distance to nearest existing centroid
     const distances = samples.map((s) => {
       let minDist = Infinity;
       for (const cent of centroids) {
-        const d = colorDistance([s.r, s.g, s.b], [cent.r, cent.g, cent.b]);
+        const d = featureDistance(s, cent, spatialScale);
         if (d < minDist) minDist = d;
       }
       return minDist * minDist; // squared for probability weighting
@@ -223,7 +328,7 @@ function kMeansPlusPlusInit(
       }
     }
     const pick = samples[idx];
-    centroids.push({ r: pick.r, g: pick.g, b: pick.b, x: pick.x, y: pick.y });
+    centroids.push({ r: pick.r, g: pick.g, b: pick.b, x: pick.x, y: pick.y, c: pick.c });
   }
 
   return centroids;
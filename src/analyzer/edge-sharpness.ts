@@ -7,40 +7,67 @@
  * Sharp = crisp glow with a defined edge (like a spotlight)
  * Diffuse = soft wash that blends gradually into its surroundings
  *
+ * Sharpness is measured as the width of the colour transition to each
+ * neighbouring region, not its gradient, so a faint but hard edge still
+ * reads as sharp.  The averaged ramp shape is kept as an edge profile.
+ *
  * This drives the variable-blur system: sharp regions get less blur,
  * diffuse regions get heavy blur, creating perceptual depth.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
-import { colorDistance } from "../utils/color";
-import { ColorRegion } from "../types";
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { colorDistance, colorSpaceRange, toColorSpace } from "../utils/color";
+import { ColorRegion, ColorSpace } from "../types";
+import { ClusterCentroid } from "./color-extractor";
 
 /**
- * Pixel-to-cluster assignment map.  assignments[y * width + x] = cluster index.
+ * Pixel-to-cluster assignment map.  assignments[y * width + x] = cluster index,
+ * or TRANSPARENT for pixels excluded by the alpha channel.
  */
 export type ClusterAssignments = Int32Array;
 
+/** Assignment label for transparent pixels that belong to no cluster. */
+export const TRANSPARENT = -1;
+
 /**
  * Re-run cluster assignment to get per-pixel labels.
  * (The color extractor doesn't expose this, so we recompute cheaply.)
+ * Pass the same `colorSpace` and `spatialWeight` used by `extractColors`,
+ * and the exact `centroids` from `extractClusters` when available, so
+ * labels agree; without them the regions' rounded colours and positions
+ * stand in.
  */
 export function assignPixelsToClusters(
   img: RawImageData,
-  colors: ColorRegion[]
+  colors: ColorRegion[],
+  colorSpace: ColorSpace = "rgb",
+  spatialWeight: number = 0,
+  centroids?: ClusterCentroid[]
 ): ClusterAssignments {
   const assignments = new Int32Array(img.width * img.height);
+  const targets = centroids
+    ? centroids.map((c) => c.color)
+    : colors.map((c) => toColorSpace(c.rgb, colorSpace));
+  const positions = centroids ?? colors.map((c) => c.position);
+  const spatialScale = spatialWeight * colorSpaceRange(colorSpace);
 
   for (let y = 0; y < img.height; y++) {
     for (let x = 0; x < img.width; x++) {
-      const [r, g, b] = getPixel(img, x, y);
+      if (!isOpaque(img, x, y) || colors.length === 0) {
+        assignments[y * img.width + x] = TRANSPARENT;
+        continue;
+      }
+      const pixel = toColorSpace(getPixel(img, x, y), colorSpace);
       let bestDist = Infinity;
       let bestIdx = 0;
 
       for (let c = 0; c < colors.length; c++) {
-        const d = colorDistance(
-          [r, g, b],
-          colors[c].rgb
-        );
+        let d = colorDistance(pixel, targets[c]);
+        if (spatialScale > 0) {
+          const px = x / (img.width - 1) - positions[c].x;
+          const py = y / (img.height - 1) - positions[c].y;
+          d = Math.sqrt(d * d + spatialScale * spatialScale * (px * px + py * py));
+        }
         if (d < bestDist) {
           bestDist = d;
           bestIdx = c;
@@ -53,17 +80,33 @@ export function assignPixelsToClusters(
   return assignments;
 }
 
+/** Profile samples across a transition, at -1, -0.5, 0, 0.5, 1 widths
+ *  from its midpoint. */
+const PROFILE_POINTS = 5;
+
+/** Step (px) between samples along a line across the boundary. */
+const LINE_STEP = 0.5;
+
+/** Transition width, as a fraction of the long edge, that scores 0 sharpness. */
+const DIFFUSE_WIDTH = 0.15;
+
 /**
  * Compute edge sharpness for each colour region.
  *
  * Strategy:
- * 1. For each cluster, find boundary pixels (pixels adjacent to a
- *    different cluster).
- * 2. At each boundary pixel, compute the luminance gradient magnitude
- *    (how abruptly brightness changes across the boundary).
- * 3. Average gradient magnitude = region's edgeSharpness.
+ * 1. Find boundary pixels between two regions (right and bottom
+ *    neighbours, so each boundary is visited once).
+ * 2. Sample a line across the boundary, along the local gradient of the
+ *    colour blend between the two region colours, and express each
+ *    sample as a 0-1 fraction of the way from one colour to the other.
+ * 3. The distance over which that fraction ramps 10% → 90% is the
+ *    transition width; the ramp, rescaled to its width, is the profile.
+ * 4. Each region takes the median width and mean profile of the
+ *    boundaries on either side of it; edgeSharpness falls linearly from
+ *    1 at a one-pixel transition to 0 at DIFFUSE_WIDTH.
  *
- * Mutates each ColorRegion in place, setting `edgeSharpness`.
+ * Mutates each ColorRegion in place, setting `edgeSharpness`, and
+ * `transitionWidth` and `edgeProfile` for regions with measured edges.
  */
 export function computeEdgeSharpness(
   img: RawImageData,
@@ -72,64 +115,175 @@ export function computeEdgeSharpness(
 ): void {
   const w = img.width;
   const h = img.height;
+  const longEdge = Math.max(w, h);
+  const reach = Math.max(8, Math.round(longEdge * DIFFUSE_WIDTH * 1.5));
+
+  const widths: number[][] = colors.map(() => []);
+  const profileSums = colors.map(() => new Array<number>(PROFILE_POINTS).fill(0));
 
-  // Per-cluster accumulators: sum of gradient magnitudes and count
-  const gradSums = new Float64Array(colors.length);
-  const gradCounts = new Float64Array(colors.length);
-
-  for (let y = 1; y < h - 1; y++) {
-    for (let x = 1; x < w - 1; x++) {
-      const idx = y * w + x;
-      const cluster = assignments[idx];
-
-      // Check if this pixel is on a boundary (any 4-connected neighbour
-      // belongs to a different cluster)
-      const top = assignments[(y - 1) * w + x];
-      const bottom = assignments[(y + 1) * w + x];
-      const left = assignments[y * w + (x - 1)];
-      const right = assignments[y * w + (x + 1)];
-
-      const isBoundary =
-        top !== cluster ||
-        bottom !== cluster ||
-        left !== cluster ||
-        right !== cluster;
-
-      if (!isBoundary) continue;
-
-      // Compute Sobel-like gradient magnitude at this pixel
-      const [r, g, b] = getPixel(img, x, y);
-      const lum = 0.299 * r + 0.587 * g + 0.114 * b;
-
-      const [lr, lg, lb] = getPixel(img, x - 1, y);
-      const lumLeft = 0.299 * lr + 0.587 * lg + 0.114 * lb;
-      const [rr, rg, rb] = getPixel(img, x + 1, y);
-      const lumRight = 0.299 * rr + 0.587 * rg + 0.114 * rb;
-
-      const [tr, tg, tb] = getPixel(img, x, y - 1);
-      const lumTop = 0.299 * tr + 0.587 * tg + 0.114 * tb;
-      const [br2, bg2, bb2] = getPixel(img, x, y + 1);
-      const lumBottom = 0.299 * br2 + 0.587 * bg2 + 0.114 * bb2;
-
-      const gx = lumRight - lumLeft;
-      const gy = lumBottom - lumTop;
-      const gradMag = Math.sqrt(gx * gx + gy * gy);
-
-      gradSums[cluster] += gradMag;
-      gradCounts[cluster]++;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const a = assignments[y * w + x];
+      if (a === TRANSPARENT) continue;
+
+      for (const [dx, dy] of [
+        [1, 0],
+        [0, 1],
+      ]) {
+        if (x + dx >= w || y + dy >= h) continue;
+        const b = assignments[(y + dy) * w + x + dx];
+        if (b === TRANSPARENT || b === a) continue;
+
+        const transition = measureTransition(
+          img,
+          colors[a].rgb,
+          colors[b].rgb,
+          x + dx / 2,
+          y + dy / 2,
+          reach
+        );
+        if (!transition) continue;
+
+        widths[a].push(transition.width);
+        widths[b].push(transition.width);
+        // Profiles run outward: a fades towards b, b towards a
+        for (let k = 0; k < PROFILE_POINTS; k++) {
+          profileSums[a][k] += 1 - transition.profile[k];
+          profileSums[b][k] += transition.profile[PROFILE_POINTS - 1 - k];
+        }
+      }
     }
   }
 
-  // Normalise to 0-1.
-  // Typical boundary gradient magnitudes: 0-5 for diffuse, 20-80 for sharp.
-  // We normalise by the per-region average, capping at 50.
   for (let c = 0; c < colors.length; c++) {
-    if (gradCounts[c] === 0) {
+    const n = widths[c].length;
+    if (n === 0) {
       // No boundary pixels found — region fills the entire image or is 1px
       colors[c].edgeSharpness = 0;
+      colors[c].transitionWidth = undefined;
+      colors[c].edgeProfile = undefined;
       continue;
     }
-    const avgGrad = gradSums[c] / gradCounts[c];
-    colors[c].edgeSharpness = Math.round(Math.min(1, avgGrad / 50) * 100) / 100;
+    const sorted = [...widths[c]].sort((p, q) => p - q);
+    const widthPx = sorted[Math.floor(n / 2)];
+    const diffusePx = longEdge * DIFFUSE_WIDTH;
+
+    const sharpness = (diffusePx - widthPx) / (diffusePx - 1);
+    colors[c].edgeSharpness = Math.round(Math.min(1, Math.max(0, sharpness)) * 100) / 100;
+    colors[c].transitionWidth = Math.round((widthPx / longEdge) * 1000) / 1000;
+    colors[c].edgeProfile = profileSums[c].map((v) => Math.round((v / n) * 100) / 100);
   }
 }
+
+/**
+ * Measure the colour transition from `from` to `to` through the point
+ * (cx, cy).  Returns the 10% → 90% width in pixels and the blend
+ * fraction sampled at PROFILE_POINTS positions across ±1 width of the
+ * 50% point, or null when the line leaves the image, touches
+ * transparency, or never completes the ramp within `reach`.
+ */
+function measureTransition(
+  img: RawImageData,
+  from: [number, number, number],
+  to: [number, number, number],
+  cx: number,
+  cy: number,
+  reach: number
+): { width: number; profile: number[] } | null {
+  const axis = [to[0] - from[0], to[1] - from[1], to[2] - from[2]];
+  const axisLenSq = axis[0] ** 2 + axis[1] ** 2 + axis[2] ** 2;
+  if (axisLenSq === 0) return null;
+
+  const blend = (x: number, y: number): number => {
+    const rgb = samplePixel(img, x, y);
+    if (!rgb) return NaN;
+    const t =
+      ((rgb[0] - from[0]) * axis[0] +
+        (rgb[1] - from[1]) * axis[1] +
+        (rgb[2] - from[2]) * axis[2]) /
+      axisLenSq;
+    return Math.min(1, Math.max(0, t));
+  };
+
+  // Cross the boundary along the gradient of the blend fraction
+  const gx = blend(cx + 1, cy) - blend(cx - 1, cy);
+  const gy = blend(cx, cy + 1) - blend(cx, cy - 1);
+  const mag = Math.hypot(gx, gy);
+  if (!(mag > 0)) return null;
+  const ux = gx / mag;
+  const uy = gy / mag;
+
+  // Walk each way until the ramp completes
+  const line = new Map<number, number>();
+  const at = (i: number) => {
+    if (!line.has(i)) line.set(i, blend(cx + ux * i * LINE_STEP, cy + uy * i * LINE_STEP));
+    return line.get(i)!;
+  };
+  const steps = Math.round(reach / LINE_STEP);
+  const find = (dir: number, done: (t: number) => boolean): number | null => {
+    for (let i = 0; i <= steps; i++) {
+      const t = at(i * dir);
+      if (isNaN(t)) return null;
+      if (done(t)) return i * dir;
+    }
+    return null;
+  };
+
+  const i10 = find(-1, (t) => t <= 0.1);
+  const i90 = find(1, (t) => t >= 0.9);
+  if (i10 === null || i90 === null) return null;
+  const width = Math.max(LINE_STEP, (i90 - i10) * LINE_STEP);
+
+  // 50% point, then the profile across ±1 width of it
+  let i50 = i10;
+  while (i50 < i90 && at(i50 + 1) < 0.5) i50++;
+  const profile: number[] = [];
+  for (let k = 0; k < PROFILE_POINTS; k++) {
+    const offset = ((k / (PROFILE_POINTS - 1)) * 2 - 1) * width;
+    const t = blend(
+      cx + ux * (i50 * LINE_STEP + offset),
+      cy + uy * (i50 * LINE_STEP + offset)
+    );
+    profile.push(isNaN(t) ? (k < PROFILE_POINTS / 2 ? 0 : 1) : t);
+  }
+
+  return { width, profile };
+}
+
+/**
+ * Bilinearly interpolated RGB at a fractional position; null outside the
+ * image or next to a transparent pixel.
+ */
+function samplePixel(
+  img: RawImageData,
+  x: number,
+  y: number
+): [number, number, number] | null {
+  if (x < 0 || y < 0 || x > img.width - 1 || y > img.height - 1) return null;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(img.width - 1, x0 + 1);
+  const y1 = Math.min(img.height - 1, y0 + 1);
+  if (
+    !isOpaque(img, x0, y0) ||
+    !isOpaque(img, x1, y0) ||
+    !isOpaque(img, x0, y1) ||
+    !isOpaque(img, x1, y1)
+  ) {
+    return null;
+  }
+
+  const fx = x - x0;
+  const fy = y - y0;
+  const p00 = getPixel(img, x0, y0);
+  const p10 = getPixel(img, x1, y0);
+  const p01 = getPixel(img, x0, y1);
+  const p11 = getPixel(img, x1, y1);
+  return [0, 1, 2].map(
+    (c) =>
+      p00[c] * (1 - fx) * (1 - fy) +
+      p10[c] * fx * (1 - fy) +
+      p01[c] * (1 - fx) * fy +
+      p11[c] * fx * fy
+  ) as [number, number, number];
+}
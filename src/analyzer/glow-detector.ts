@@ -0,0 +1,293 @@
+/**
+ * Glow detector.
+ *
+ * k-means averages a small, bright focal glow (sun flare, spotlight
+ * bloom) into a large dull cluster.  This analyser finds local maxima of
+ * a smoothed luminance map and fits each with a radial falloff profile,
+ * so the generator can render it as a dedicated glow layer.
+ */
+
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { luminance, rgbToHex } from "../utils/color";
+import { GlowInfo } from "../types";
+
+/** Maximum glows reported. */
+const MAX_GLOWS = 3;
+
+/** Minimum rise of a glow's core above its surroundings (luminance 0-1). */
+const MIN_PROMINENCE = 0.15;
+
+/** Directions sampled when fitting the radial profile. */
+const PROFILE_DIRECTIONS = 16;
+
+/**
+ * Largest spread of the per-direction profiles at half the radius.
+ * Ridges and ribbons stay bright along their length; glows fade evenly.
+ */
+const MAX_ANISOTROPY = 0.35;
+
+/** Largest glow radius, as a fraction of the long edge.  Broader light
+ *  falloffs belong to the base gradient and vignette. */
+const MAX_RADIUS = 0.4;
+
+/**
+ * Minimum width of the 90% → 10% transition, as a fraction of the radius.
+ * Flat discs with hard edges are shapes, not glows.
+ */
+const MIN_SOFTNESS = 0.5;
+
+/**
+ * Detect bright focal glows, strongest first.
+ */
+export function detectGlows(img: RawImageData): GlowInfo[] {
+  const w = img.width;
+  const h = img.height;
+  const longEdge = Math.max(w, h);
+  const raw = luminanceMap(img);
+  const lum = boxBlur(raw, w, h, Math.max(1, Math.round(longEdge * 0.03)));
+
+  // Candidate peaks: local maxima well above the image median
+  const opaque = Array.from(lum).filter((v) => !isNaN(v)).sort((a, b) => a - b);
+  if (opaque.length === 0) return [];
+  const median = opaque[Math.floor(opaque.length / 2)];
+
+  const window = Math.max(2, Math.round(longEdge * 0.08));
+  const peaks: Array<{ x: number; y: number; value: number }> = [];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const value = lum[y * w + x];
+      if (isNaN(value) || value - median < MIN_PROMINENCE) continue;
+      if (isLocalMax(lum, w, h, x, y, window)) peaks.push({ x, y, value });
+    }
+  }
+  peaks.sort((a, b) => b.value - a.value);
+
+  const glows: Array<GlowInfo & { px: number; py: number; rPx: number }> = [];
+  for (const peak of peaks) {
+    if (glows.length >= MAX_GLOWS) break;
+    // Skip peaks inside an already-accepted glow (plateaus, secondary bumps)
+    if (glows.some((g) => Math.hypot(g.px - peak.x, g.py - peak.y) < g.rPx)) {
+      continue;
+    }
+
+    const maxR = Math.round(longEdge * MAX_RADIUS);
+    const fit = fitRadialProfile(raw, w, h, peak.x, peak.y, maxR);
+    if (!fit) continue;
+
+    const rgb = coreColor(img, peak.x, peak.y, Math.max(1, fit.radius * 0.25));
+    glows.push({
+      hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
+      rgb,
+      position: {
+        x: Math.round((peak.x / (w - 1 || 1)) * 100) / 100,
+        y: Math.round((peak.y / (h - 1 || 1)) * 100) / 100,
+      },
+      radius: Math.round((fit.radius / longEdge) * 100) / 100,
+      intensity: Math.round(Math.min(1, fit.rise / 0.5) * 100) / 100,
+      falloff: Math.round(fit.exponent * 100) / 100,
+      px: peak.x,
+      py: peak.y,
+      rPx: fit.radius,
+    });
+  }
+
+  return glows.map(({ px: _px, py: _py, rPx: _rPx, ...glow }) => glow);
+}
+
+/* ────────────────────────────────────────────────────────
+   Luminance map
+   ──────────────────────────────────────────────────────── */
+
+/** Per-pixel luminance (0-1); transparent pixels are NaN. */
+function luminanceMap(img: RawImageData): Float64Array {
+  const out = new Float64Array(img.width * img.height);
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      const [r, g, b] = getPixel(img, x, y);
+      out[y * img.width + x] = isOpaque(img, x, y) ? luminance(r, g, b) : NaN;
+    }
+  }
+  return out;
+}
+
+/**
+ * Box blur used for peak finding, so grain doesn't create false peaks.
+ * NaN (transparent) pixels are excluded from their neighbours' means.
+ */
+function boxBlur(
+  raw: Float64Array,
+  w: number,
+  h: number,
+  radius: number
+): Float64Array {
+  const out = new Float64Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (isNaN(raw[y * w + x])) {
+        out[y * w + x] = NaN;
+        continue;
+      }
+      let sum = 0;
+      let n = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= h) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= w) continue;
+          const v = raw[ny * w + nx];
+          if (isNaN(v)) continue;
+          sum += v;
+          n++;
+        }
+      }
+      out[y * w + x] = sum / n;
+    }
+  }
+  return out;
+}
+
+/** True when no pixel within `window` is brighter than (x, y). */
+function isLocalMax(
+  lum: Float64Array,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+  window: number
+): boolean {
+  const value = lum[y * w + x];
+  for (let dy = -window; dy <= window; dy++) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= h) continue;
+    for (let dx = -window; dx <= window; dx++) {
+      const nx = x + dx;
+      if (nx < 0 || nx >= w) continue;
+      if (lum[ny * w + nx] > value) return false;
+    }
+  }
+  return true;
+}
+
+/* ────────────────────────────────────────────────────────
+   Radial profile fitting
+   ──────────────────────────────────────────────────────── */
+
+interface RadialFit {
+  /** Fade-out radius in analysis pixels */
+  radius: number;
+  /** Core luminance minus surrounding floor */
+  rise: number;
+  /** Exponent of (1 - r / radius) */
+  exponent: number;
+}
+
+/**
+ * Average the unsmoothed luminance along rays from the peak and fit
+ * p(r) = (1 - r / radius) ^ exponent to the normalised profile.
+ * Returns null for peaks that don't behave like a glow: too faint,
+ * not fading well within `maxR`, dropping too abruptly (flat discs), or
+ * fading unevenly across directions (ridges, ribbons, linear gradients).
+ */
+function fitRadialProfile(
+  lum: Float64Array,
+  w: number,
+  h: number,
+  px: number,
+  py: number,
+  maxR: number
+): RadialFit | null {
+  const rays: number[][] = [];
+  for (let d = 0; d < PROFILE_DIRECTIONS; d++) {
+    const angle = (d / PROFILE_DIRECTIONS) * Math.PI * 2;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    const ray: number[] = [];
+    for (let r = 0; r <= maxR; r++) {
+      const x = Math.round(px + ux * r);
+      const y = Math.round(py + uy * r);
+      if (x < 0 || x >= w || y < 0 || y >= h) break;
+      const v = lum[y * w + x];
+      if (isNaN(v)) break;
+      ray.push(v);
+    }
+    if (ray.length >= 2) rays.push(ray);
+  }
+  if (rays.length === 0) return null;
+
+  // Mean profile over the rays that reach each radius
+  const profile: number[] = [];
+  for (let r = 0; r <= maxR; r++) {
+    let sum = 0;
+    let n = 0;
+    for (const ray of rays) {
+      if (r < ray.length) {
+        sum += ray[r];
+        n++;
+      }
+    }
+    if (n === 0) break;
+    profile.push(sum / n);
+  }
+
+  const peak = profile[0];
+  const floor = Math.min(...profile);
+  const rise = peak - floor;
+  if (rise < MIN_PROMINENCE) return null;
+
+  const p = profile.map((v) => (v - floor) / rise);
+  const r90 = p.findIndex((v) => v <= 0.9);
+  const radius = p.findIndex((v) => v <= 0.1);
+  // Falloffs still fading near maxR are too broad to be a focal glow
+  if (radius < 2 || radius > maxR * 0.85) return null;
+  if (radius - r90 < radius * MIN_SOFTNESS) return null;
+
+  // Every direction should have faded about as far at half the radius
+  const mid = Math.round(radius / 2);
+  const midLevels = rays
+    .filter((ray) => ray.length > mid)
+    .map((ray) => (ray[mid] - floor) / rise);
+  if (
+    midLevels.length > 0 &&
+    Math.max(...midLevels) - Math.min(...midLevels) > MAX_ANISOTROPY
+  ) {
+    return null;
+  }
+
+  // Least squares on log p = exponent · log(1 - r / radius)
+  let num = 0;
+  let den = 0;
+  for (let r = 1; r < radius; r++) {
+    if (p[r] <= 0.02) continue;
+    const q = Math.log(1 - r / radius);
+    num += Math.log(Math.min(1, p[r])) * q;
+    den += q * q;
+  }
+  const exponent = den > 0 ? Math.max(0.3, Math.min(4, num / den)) : 1;
+
+  return { radius, rise, exponent };
+}
+
+/** Average colour of the opaque pixels within `radius` of the peak. */
+function coreColor(
+  img: RawImageData,
+  px: number,
+  py: number,
+  radius: number
+): [number, number, number] {
+  const sum = [0, 0, 0];
+  let n = 0;
+  const r = Math.ceil(radius);
+  for (let y = Math.max(0, py - r); y <= Math.min(img.height - 1, py + r); y++) {
+    for (let x = Math.max(0, px - r); x <= Math.min(img.width - 1, px + r); x++) {
+      if ((x - px) ** 2 + (y - py) ** 2 > radius * radius) continue;
+      if (!isOpaque(img, x, y)) continue;
+      const rgb = getPixel(img, x, y);
+      sum[0] += rgb[0];
+      sum[1] += rgb[1];
+      sum[2] += rgb[2];
+      n++;
+    }
+  }
+  return sum.map((c) => Math.round(c / (n || 1))) as [number, number, number];
+}
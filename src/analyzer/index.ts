@@ -2,25 +2,53 @@
  * Image analysis orchestrator.
  *
  * Runs the full pipeline: load image -> extract colors -> analyse noise ->
- * analyse blur -> compute edge sharpness -> analyse shapes -> detect
- * vignette -> detect mood -> classify strategy -> return GradientSpec.
+ * analyse blur -> detect glows, vignette and mood -> sample base profile ->
+ * split disjoint regions -> compute edge sharpness, blur and adjacency ->
+ * analyse shapes -> classify strategy -> return GradientSpec.
  */
 
 import { loadImage } from "../utils/image";
-import { extractColors } from "./color-extractor";
+import { extractClusters, ClusterCentroid } from "./color-extractor";
+import { selectClusterCount, clusterBoundsForFidelity } from "./cluster-count";
 import { analyzeNoise } from "./noise-analyzer";
-import { analyzeBlur } from "./blur-analyzer";
+import { analyzeBlur, computeRegionBlur } from "./blur-analyzer";
+import { analyzeBaseProfile } from "./base-profile";
+import { detectGlows } from "./glow-detector";
 import { assignPixelsToClusters, computeEdgeSharpness } from "./edge-sharpness";
+import { splitDisjointRegions } from "./region-splitter";
+import { buildAdjacency } from "./region-adjacency";
 import { analyzeShapes } from "./shape-analyzer";
 import { classifyStrategy } from "./strategy-classifier";
-import { detectVignette, detectMood } from "./region-mapper";
-import { GradientSpec, FidelityLevel } from "../types";
+import {
+  detectVignette,
+  detectMood,
+  detectTransparency,
+} from "./region-mapper";
+import {
+  GradientSpec,
+  FidelityLevel,
+  ColorSpace,
+  ColorRegion,
+  ClusterSelection,
+  ImageInput,
+  CropRegion,
+} from "../types";
 
 export interface AnalyzeOptions {
-  /** Number of color clusters to extract.  Driven by fidelity level. */
-  colorClusters?: number;
-  /** Resize dimension for analysis (higher = more precise but slower). */
+  /** Number of color clusters to extract.  Driven by fidelity level.
+   *  "auto" picks k per image by silhouette score within fidelity bounds. */
+  colorClusters?: number | "auto";
+  /** Long-edge resize dimension for analysis; aspect ratio is kept
+   *  (higher = more precise but slower). */
   analysisSize?: number;
+  /** Colour space for clustering distances (default "rgb"). */
+  colorSpace?: ColorSpace;
+  /** Weight of pixel position in k-means (SLIC-style), 0 = colour only
+   *  (default).  Around 0.3-1 gives spatially compact regions. */
+  spatialWeight?: number;
+  /** Region of interest, in pixels or percentages, analysed instead of
+   *  the whole image.  Applied before resizing. */
+  crop?: CropRegion;
 }
 
 /** Map fidelity to default cluster count. */
@@ -37,46 +65,90 @@ function clustersForFidelity(fidelity: FidelityLevel): number {
 
 /**
  * Analyse a reference image and return a full GradientSpec.
+ * Accepts a file path, encoded image bytes, or raw RGBA pixels.
  */
 export async function analyzeImage(
-  imagePath: string,
+  image: ImageInput,
   fidelity: FidelityLevel = "vibe",
   options: AnalyzeOptions = {}
 ): Promise<GradientSpec> {
   const clusters = options.colorClusters ?? clustersForFidelity(fidelity);
   const size = options.analysisSize ?? 100;
+  const colorSpace = options.colorSpace ?? "rgb";
+  const spatialWeight = options.spatialWeight ?? 0;
+  const clusterOptions = { colorSpace, spatialWeight };
 
   // Load image to a small working size
-  const img = await loadImage(imagePath, size);
+  const img = await loadImage(image, size, options.crop);
 
   // Run core analysers
-  const colors = extractColors(img, clusters);
+  let clusterColors: ColorRegion[];
+  let centroids: ClusterCentroid[];
+  let clusterSelection: ClusterSelection | undefined;
+  if (clusters === "auto") {
+    const bounds = clusterBoundsForFidelity(fidelity);
+    ({
+      colors: clusterColors,
+      centroids,
+      selection: clusterSelection,
+    } = selectClusterCount(img, bounds, clusterOptions));
+  } else {
+    ({ colors: clusterColors, centroids } = extractClusters(img, clusters, clusterOptions));
+  }
   const noise = analyzeNoise(img);
-  const blur = analyzeBlur(img);
-  const vignette = detectVignette(img);
+  const { blur, edges } = analyzeBlur(img);
+  const glows = detectGlows(img);
+  const vignette = detectVignette(img, glows);
+  const transparency = detectTransparency(img);
   const mood = detectMood(img);
+  const baseProfile = analyzeBaseProfile(img);
+
+  // Split clusters into spatially connected regions, one per blob
+  const clusterMap = assignPixelsToClusters(
+    img,
+    clusterColors,
+    colorSpace,
+    spatialWeight,
+    centroids
+  );
+  const { regions: colors, assignments } = splitDisjointRegions(
+    img,
+    clusterColors,
+    clusterMap
+  );
 
   // Compute per-region edge sharpness
-  const assignments = assignPixelsToClusters(img, colors);
   computeEdgeSharpness(img, colors, assignments);
 
+  // Measure how blurred each region's edges are
+  computeRegionBlur(img, colors, assignments, edges);
+
+  // Record which regions touch and the colours where they meet
+  const adjacency = buildAdjacency(img, colors, assignments);
+
   // Analyse shape characteristics (flow, contours, organic forms)
-  const shapes = analyzeShapes(img, colors, assignments);
+  const shapes = analyzeShapes(img, colors, assignments, fidelity);
 
   // Classify the optimal generation strategy (may be "organic" for SVG)
   const strategy = classifyStrategy(colors, shapes);
 
   return {
     colors,
+    adjacency,
     noise,
     blur,
     vignette,
+    glows,
+    transparency,
     dimensions: {
       width: img.originalWidth,
       height: img.originalHeight,
     },
+    crop: img.crop,
     mood,
+    baseProfile,
     strategy,
     shapes,
+    clusterSelection,
   };
 }
@@ -4,24 +4,330 @@
  * Detects the amount, frequency, sharpness, and contrast of noise in an
  * image by isolating the high-frequency residual (original minus a blurred
  * copy) and measuring its statistical properties.
+ *
+ * The analysis image is shrunk to ~100px, which averages real film grain
+ * away.  When the full-resolution pixels are available, grain is measured
+ * on several native tiles taken from the flattest areas of the image, so
+ * the numbers describe grain rather than image structure.  Grain strength
+ * is also measured per luminance band (film grain is strongest in the
+ * midtones and shadows), using extra tiles at each tone where available.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
-import { NoiseInfo } from "../types";
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { floorPowerOfTwo, powerSpectrum2D } from "../utils/fft";
+import { rgbToHex } from "../utils/color";
+import { NoiseInfo, NoiseSpectrum } from "../types";
+
+/** Edge length of the native-resolution tiles grain is measured on —
+ *  leaves a 64 px (power-of-two) residual after the 5×5 blur border. */
+const TILE_SIZE = 68;
+
+/** Smallest usable tile; below this the analysis image is measured instead. */
+const MIN_TILE_SIZE = 16;
+
+/** Candidate tiles overlap by half, so small images still offer tiles
+ *  that fit between their structures. */
+const TILE_STRIDE = 0.5;
+
+/** How much busier than the flattest candidate a tile may be before it
+ *  counts as structure. */
+const MAX_STRUCTURE_RATIO = 1.5;
+
+/** Lowest structure limit (luminance units), so clean images — whose
+ *  flattest tile measures ~0 — don't reject every other tile. */
+const MIN_STRUCTURE_LIMIT = 1;
+
+/** Number of flat tiles sampled. */
+const MAX_TILES = 6;
+
+/** Anisotropy above which grain counts as directional. */
+const DIRECTIONAL_ANISOTROPY = 0.25;
+
+/** Peak-to-median power along the spectral axis that marks periodic lines. */
+const SCANLINE_PEAKINESS = 6;
+
+/** Equal-width luminance bands the grain response is measured in. */
+const LUMINANCE_BANDS = 5;
+
+/** Residual samples a band needs before its grain strength is trusted. */
+const MIN_BAND_SAMPLES = 200;
+
+/** Residual standard deviation (luminance units) below which there is
+ *  no grain to characterise — only quantisation steps. */
+const MIN_SPECTRUM_RESIDUAL = 0.5;
+
+/** Intensity below which the residual is image structure (anti-aliased
+ *  edges, gradients) rather than grain, and isn't characterised. */
+const MIN_GRAIN_INTENSITY = 0.05;
+
+/** Half-width of the box blur used for the high-pass residual (5×5). */
+const BLUR_RADIUS = 2;
+
+/** Raw measurements that NoiseInfo is derived from. */
+interface NoiseStats {
+  /** Mean absolute neighbour difference, 0-1 */
+  avgDiff: number;
+  /** Share of horizontal differences that flip sign */
+  alternationRate: number;
+  /** Standard deviation of the high-pass residual (luminance units) */
+  residualStdDev: number;
+  /** Laplacian variance of the residual */
+  lapVariance: number;
+  /** Power spectrum of the windowed residual (size × size, unshifted),
+   *  null when the residual is too small */
+  power: Float64Array | null;
+  /** Edge length of `power` */
+  spectrumSize: number;
+  /** Standard deviation of the per-channel residuals [R, G, B] */
+  channelStdDev: [number, number, number];
+  /** Mean pairwise correlation of the channel residuals, -1 to 1 */
+  channelCorrelation: number;
+  /** Sum of squared residuals per luminance band (of the blurred pixel) */
+  bandSumSq: number[];
+  /** Residual samples per luminance band */
+  bandCount: number[];
+}
 
 /**
  * Analyse the noise characteristics of an image.
  *
+ * Uses the flattest native-resolution tiles when the image was scaled
+ * down for analysis (median of the per-tile measurements, mean of their
+ * power spectra), otherwise the analysis image itself.  The luminance
+ * response pools the flat tiles with one extra tile per luminance band.
+ */
+export function analyzeNoise(img: RawImageData): NoiseInfo {
+  const native = img.native;
+  const candidates = native ? tileCandidates(img, native) : [];
+  const tiles = native ? selectFlatTiles(native, candidates) : [];
+  if (tiles.length === 0) return describeNoise(measureNoise(img));
+
+  const stats = tiles.map(measureNoise);
+  const median = (pick: (s: NoiseStats) => number) => {
+    const values = stats.map(pick).sort((a, b) => a - b);
+    const mid = Math.floor(values.length / 2);
+    return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+  };
+
+  // Tiles share one size, so their spectra can be averaged bin by bin
+  const { spectrumSize } = stats[0];
+  let power: Float64Array | null = null;
+  if (stats.every((s) => s.power && s.spectrumSize === spectrumSize)) {
+    power = new Float64Array(spectrumSize * spectrumSize);
+    for (const s of stats) {
+      for (let i = 0; i < power.length; i++) power[i] += s.power![i] / stats.length;
+    }
+  }
+
+  return {
+    ...describeNoise({
+      avgDiff: median((s) => s.avgDiff),
+      alternationRate: median((s) => s.alternationRate),
+      residualStdDev: median((s) => s.residualStdDev),
+      lapVariance: median((s) => s.lapVariance),
+      power,
+      spectrumSize,
+      channelStdDev: [
+        median((s) => s.channelStdDev[0]),
+        median((s) => s.channelStdDev[1]),
+        median((s) => s.channelStdDev[2]),
+      ],
+      channelCorrelation: median((s) => s.channelCorrelation),
+      ...poolBands([...stats, ...selectBandTiles(native!, candidates).map(measureNoise)]),
+    }),
+    tiles: tiles.length,
+  };
+}
+
+/* ────────────────────────────────────────────────────────
+   Native tile selection
+   ──────────────────────────────────────────────────────── */
+
+/** A native tile position with its footprint on the analysis image. */
+interface TileCandidate {
+  x: number;
+  y: number;
+  size: number;
+  /** Mean absolute luminance gradient of the footprint */
+  structure: number;
+  /** Luminance band of the footprint's mean */
+  band: number;
+}
+
+/**
+ * Half-overlapping grid of native tile positions over opaque areas,
+ * flattest first.  Flatness is judged on the analysis image (mean
+ * absolute luminance gradient over the tile's footprint), where grain is
+ * already averaged away and only structure remains; tiles much busier
+ * than the flattest are dropped.
+ */
+function tileCandidates(img: RawImageData, native: RawImageData): TileCandidate[] {
+  const size = Math.min(TILE_SIZE, native.width, native.height);
+  if (size < MIN_TILE_SIZE) return [];
+
+  const sx = img.width / native.width;
+  const sy = img.height / native.height;
+
+  const step = Math.max(1, Math.floor(size * TILE_STRIDE));
+  const candidates: TileCandidate[] = [];
+  for (let ty = 0; ty + size <= native.height; ty += step) {
+    for (let tx = 0; tx + size <= native.width; tx += step) {
+      const footprint = footprintStats(
+        img,
+        Math.floor(tx * sx),
+        Math.floor(ty * sy),
+        Math.ceil((tx + size) * sx),
+        Math.ceil((ty + size) * sy)
+      );
+      if (footprint) {
+        candidates.push({
+          x: tx,
+          y: ty,
+          size,
+          structure: footprint.structure,
+          band: luminanceBand(footprint.luminance),
+        });
+      }
+    }
+  }
+  candidates.sort((a, b) => a.structure - b.structure);
+  if (candidates.length === 0) return candidates;
+
+  const limit = Math.max(MIN_STRUCTURE_LIMIT, candidates[0].structure * MAX_STRUCTURE_RATIO);
+  return candidates.filter((c) => c.structure <= limit);
+}
+
+/** Cut up to MAX_TILES fully opaque tiles from the flattest candidates. */
+function selectFlatTiles(
+  native: RawImageData,
+  candidates: TileCandidate[]
+): RawImageData[] {
+  const tiles: RawImageData[] = [];
+  for (const c of candidates) {
+    if (tiles.length >= MAX_TILES) break;
+    const tile = extractTile(native, c.x, c.y, c.size);
+    if (tile) tiles.push(tile);
+  }
+  return tiles;
+}
+
+/**
+ * The flattest tile in each luminance band, so the grain response covers
+ * tones the flat tiles miss.  Tiles busier than the median candidate are
+ * skipped — their residual would measure structure, not grain.
+ */
+function selectBandTiles(
+  native: RawImageData,
+  candidates: TileCandidate[]
+): RawImageData[] {
+  const flat = new Set(candidates.slice(0, MAX_TILES));
+  const maxStructure = candidates[Math.floor(candidates.length / 2)]?.structure ?? 0;
+
+  const tiles: RawImageData[] = [];
+  for (let band = 0; band < LUMINANCE_BANDS; band++) {
+    const pick = candidates.find(
+      (c) => c.band === band && c.structure <= maxStructure && !flat.has(c)
+    );
+    const tile = pick && extractTile(native, pick.x, pick.y, pick.size);
+    if (tile) tiles.push(tile);
+  }
+  return tiles;
+}
+
+/**
+ * Mean absolute luminance difference between neighbours inside the
+ * (x0, y0)-(x1, y1) footprint, widened to at least 3×3 so it always has
+ * neighbours, and the footprint's mean luminance.  Null when the
+ * footprint touches transparency.
+ */
+function footprintStats(
+  img: RawImageData,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): { structure: number; luminance: number } | null {
+  const cx = (x0 + x1) / 2;
+  const cy = (y0 + y1) / 2;
+  const left = Math.max(0, Math.min(x0, Math.floor(cx - 1)));
+  const top = Math.max(0, Math.min(y0, Math.floor(cy - 1)));
+  const right = Math.min(img.width - 1, Math.max(x1, Math.ceil(cx + 1)));
+  const bottom = Math.min(img.height - 1, Math.max(y1, Math.ceil(cy + 1)));
+
+  let total = 0;
+  let count = 0;
+  let lumSum = 0;
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (!isOpaque(img, x, y)) return null;
+      const lum = pixelLuminance(img, x, y);
+      lumSum += lum;
+      if (x < right) {
+        total += Math.abs(pixelLuminance(img, x + 1, y) - lum);
+        count++;
+      }
+      if (y < bottom) {
+        total += Math.abs(pixelLuminance(img, x, y + 1) - lum);
+        count++;
+      }
+    }
+  }
+  const pixels = (right - left + 1) * (bottom - top + 1);
+  return { structure: total / (count || 1), luminance: lumSum / pixels };
+}
+
+/** Copy a size×size tile out of the native image; null if it isn't fully opaque. */
+function extractTile(
+  native: RawImageData,
+  x0: number,
+  y0: number,
+  size: number
+): RawImageData | null {
+  const data = Buffer.alloc(size * size * 3);
+  const alpha = Buffer.alloc(size * size, 255);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isOpaque(native, x0 + x, y0 + y)) return null;
+      const src = ((y0 + y) * native.width + x0 + x) * 3;
+      const dst = (y * size + x) * 3;
+      data[dst] = native.data[src];
+      data[dst + 1] = native.data[src + 1];
+      data[dst + 2] = native.data[src + 2];
+    }
+  }
+  return {
+    data,
+    alpha,
+    hasAlpha: false,
+    width: size,
+    height: size,
+    originalWidth: size,
+    originalHeight: size,
+  };
+}
+
+/* ────────────────────────────────────────────────────────
+   Measurement
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Measure the raw noise statistics of one image or tile.
+ *
  * Strategy:
- * 1. Compute average neighbour-difference for intensity and alternation
- *    rate for frequency (original approach, kept for backward compat).
+ * 1. Compute average neighbour-difference (→ intensity) and alternation
+ *    rate (→ frequency, baseFrequency).
  * 2. Build a high-pass residual by subtracting a simple box-blur from the
  *    original.  From the residual we derive:
- *      - sharpness:     Laplacian variance of the residual (crispy vs soft grain)
- *      - contrast:      Standard deviation of residual values (punchy vs faint)
- *      - baseFrequency: Continuous 0.3-1.0 value from the alternation rate
+ *      - sharpness: Laplacian variance of the residual (crispy vs soft grain)
+ *      - contrast:  Standard deviation of residual values (punchy vs faint)
+ *      - spectrum:  2D power spectrum of the residual (→ dominant
+ *                   frequency, slope, directionality)
+ *      - chroma:    correlation between the R, G and B residuals
+ *                   (luminance grain moves all three together)
+ *      - response:  residual strength per luminance band of the blurred
+ *                   image (film grain fades in the highlights)
  */
-export function analyzeNoise(img: RawImageData): NoiseInfo {
+function measureNoise(img: RawImageData): NoiseStats {
   // ── Step 1: Original neighbour-difference metrics ──────────────────
 
   let totalDiff = 0;
@@ -31,6 +337,14 @@ export function analyzeNoise(img: RawImageData): NoiseInfo {
 
   for (let y = 0; y < img.height - 1; y++) {
     for (let x = 0; x < img.width - 1; x++) {
+      if (
+        !isOpaque(img, x, y) ||
+        !isOpaque(img, x + 1, y) ||
+        !isOpaque(img, x, y + 1)
+      ) {
+        prevDiffSign = 0;
+        continue;
+      }
       const [r, g, b] = getPixel(img, x, y);
       const [rr, rg, rb] = getPixel(img, x + 1, y); // right neighbour
       const [dr, dg, db] = getPixel(img, x, y + 1); // bottom neighbour
@@ -55,73 +369,72 @@ export function analyzeNoise(img: RawImageData): NoiseInfo {
   }
 
   // Average difference normalised to 0-1 (max possible is 255)
-  const avgDiff = totalDiff / comparisons / 255;
-
-  // Intensity: scale so typical noisy images land around 0.5-0.8
-  const intensity = Math.min(1, avgDiff * 10);
+  const avgDiff = totalDiff / (comparisons || 1) / 255;
 
   // Frequency: alternation rate — higher = finer grain
-  const totalPossibleAlternations = (img.width - 1) * (img.height - 1);
+  const totalPossibleAlternations = comparisons / 2 || 1;
   const alternationRate = alternations / totalPossibleAlternations;
 
-  let frequency: NoiseInfo["frequency"];
-  if (alternationRate > 0.6) frequency = "fine";
-  else if (alternationRate > 0.35) frequency = "medium";
-  else frequency = "coarse";
-
-  let type: NoiseInfo["type"];
-  if (intensity < 0.15) type = "smooth";
-  else if (frequency === "fine") type = "grain";
-  else type = "speckle";
-
-  // ── Step 2: Continuous baseFrequency from alternation rate ─────────
-  // Map alternationRate (typically 0.2-0.8) to baseFrequency 0.3-1.0
-  const baseFrequency = round(
-    Math.min(1.0, Math.max(0.3, 0.3 + alternationRate * 0.875))
-  );
-
-  // ── Step 3: High-pass residual analysis ────────────────────────────
+  // ── Step 2: High-pass residual analysis ────────────────────────────
   // Build a simple 5×5 box-blurred version of the image, then compute
-  // the per-pixel residual (original - blurred).
+  // the per-pixel residual (original - blurred).  Windows that touch
+  // transparent pixels get NaN and are skipped by the statistics below.
 
-  const blurRadius = 2; // 5×5 kernel
+  const blurRadius = BLUR_RADIUS;
   const residuals: number[] = [];
+  const channels = emptyChannelMoments();
+  const bandSumSq = new Array<number>(LUMINANCE_BANDS).fill(0);
+  const bandCount = new Array<number>(LUMINANCE_BANDS).fill(0);
 
   for (let y = blurRadius; y < img.height - blurRadius; y++) {
     for (let x = blurRadius; x < img.width - blurRadius; x++) {
+      if (!windowOpaque(img, x, y, blurRadius)) {
+        residuals.push(NaN);
+        continue;
+      }
+
       // Original luminance
       const [or, og, ob] = getPixel(img, x, y);
       const origLum = 0.299 * or + 0.587 * og + 0.114 * ob;
 
-      // Box-blur luminance (5×5 neighbourhood)
+      // Box-blur luminance and channels (5×5 neighbourhood)
       let blurSum = 0;
       let blurCount = 0;
+      const blurRgb = [0, 0, 0];
       for (let dy = -blurRadius; dy <= blurRadius; dy++) {
         for (let dx = -blurRadius; dx <= blurRadius; dx++) {
           const [br, bg, bb] = getPixel(img, x + dx, y + dy);
           blurSum += 0.299 * br + 0.587 * bg + 0.114 * bb;
+          blurRgb[0] += br;
+          blurRgb[1] += bg;
+          blurRgb[2] += bb;
           blurCount++;
         }
       }
       const blurLum = blurSum / blurCount;
 
       residuals.push(origLum - blurLum);
+      const band = luminanceBand(blurLum);
+      bandSumSq[band] += (origLum - blurLum) ** 2;
+      bandCount[band]++;
+      addChannelSample(
+        channels,
+        or - blurRgb[0] / blurCount,
+        og - blurRgb[1] / blurCount,
+        ob - blurRgb[2] / blurCount
+      );
     }
   }
 
-  // ── Step 3a: Contrast — standard deviation of residuals ────────────
-  // Normalised to 0-1 where 1 = very high-contrast noise
-  const n = residuals.length;
-  const meanResidual = residuals.reduce((a, b) => a + b, 0) / n;
+  // ── Step 2a: Spread of the residuals (→ contrast) ─────────────────
+  const validResiduals = residuals.filter((v) => !Number.isNaN(v));
+  const n = validResiduals.length || 1;
+  const meanResidual = validResiduals.reduce((a, b) => a + b, 0) / n;
   const residualVariance =
-    residuals.reduce((sum, v) => sum + (v - meanResidual) ** 2, 0) / n;
+    validResiduals.reduce((sum, v) => sum + (v - meanResidual) ** 2, 0) / n;
   const residualStdDev = Math.sqrt(residualVariance);
 
-  // Typical residual stddev: 0-2 for smooth images, 5-15 for grainy.
-  // Map to 0-1 with a ceiling at ~20.
-  const contrast = round(Math.min(1, residualStdDev / 20));
-
-  // ── Step 3b: Sharpness — Laplacian variance of the residual ───────
+  // ── Step 2b: Laplacian variance of the residual (→ sharpness) ─────
   // Build the residual as a 2D grid and compute its Laplacian variance.
   // High Laplacian variance = crispy, hard-edged noise particles.
   const residualW = img.width - 2 * blurRadius;
@@ -137,19 +450,296 @@ export function analyzeNoise(img: RawImageData): NoiseInfo {
       const left = residuals[y * residualW + (x - 1)];
       const right = residuals[y * residualW + (x + 1)];
 
-      laplacianValues.push(top + bottom + left + right - 4 * center);
+      const lap = top + bottom + left + right - 4 * center;
+      if (!Number.isNaN(lap)) laplacianValues.push(lap);
     }
   }
 
-  const lapN = laplacianValues.length;
+  const lapN = laplacianValues.length || 1;
   const lapMean = laplacianValues.reduce((a, b) => a + b, 0) / lapN;
   const lapVariance =
     laplacianValues.reduce((sum, v) => sum + (v - lapMean) ** 2, 0) / lapN;
 
-  // Typical Laplacian variance of residual: 0-5 for soft noise, 20-100+
-  // for crispy grain.  Map to 0-1 with ceiling at 80.
+  // ── Step 2c: Power spectrum of the residual ──────────────────────
+  const { power, size: spectrumSize } = residualSpectrum(
+    residuals,
+    residualW,
+    residualH
+  );
+
+  return {
+    avgDiff,
+    alternationRate,
+    residualStdDev,
+    lapVariance,
+    power,
+    spectrumSize,
+    channelStdDev: channelStdDevs(channels),
+    channelCorrelation: meanChannelCorrelation(channels),
+    bandSumSq,
+    bandCount,
+  };
+}
+
+/** Luminance band (0 … LUMINANCE_BANDS - 1) of a 0-255 luminance. */
+function luminanceBand(lum: number): number {
+  return Math.min(LUMINANCE_BANDS - 1, Math.floor((lum / 256) * LUMINANCE_BANDS));
+}
+
+/** Sum the per-band residual moments of several measurements. */
+function poolBands(stats: NoiseStats[]): Pick<NoiseStats, "bandSumSq" | "bandCount"> {
+  const bandSumSq = new Array<number>(LUMINANCE_BANDS).fill(0);
+  const bandCount = new Array<number>(LUMINANCE_BANDS).fill(0);
+  for (const s of stats) {
+    for (let b = 0; b < LUMINANCE_BANDS; b++) {
+      bandSumSq[b] += s.bandSumSq[b];
+      bandCount[b] += s.bandCount[b];
+    }
+  }
+  return { bandSumSq, bandCount };
+}
+
+/**
+ * Running sums for the per-channel residual statistics: standard
+ * deviations and the mean pairwise (RG, RB, GB) Pearson correlation.
+ */
+interface ChannelMoments {
+  n: number;
+  sum: number[];
+  sumSq: number[];
+  /** RG, RB, GB */
+  cross: number[];
+}
+
+function emptyChannelMoments(): ChannelMoments {
+  return { n: 0, sum: [0, 0, 0], sumSq: [0, 0, 0], cross: [0, 0, 0] };
+}
+
+function addChannelSample(m: ChannelMoments, r: number, g: number, b: number): void {
+  m.n++;
+  m.sum[0] += r;
+  m.sum[1] += g;
+  m.sum[2] += b;
+  m.sumSq[0] += r * r;
+  m.sumSq[1] += g * g;
+  m.sumSq[2] += b * b;
+  m.cross[0] += r * g;
+  m.cross[1] += r * b;
+  m.cross[2] += g * b;
+}
+
+function channelVariance(m: ChannelMoments, c: number): number {
+  const n = m.n || 1;
+  return Math.max(0, m.sumSq[c] / n - (m.sum[c] / n) ** 2);
+}
+
+function channelStdDevs(m: ChannelMoments): [number, number, number] {
+  return [0, 1, 2].map((c) => Math.sqrt(channelVariance(m, c))) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+function meanChannelCorrelation(m: ChannelMoments): number {
+  const n = m.n || 1;
+  const pairs: Array<[number, number, number]> = [
+    [0, 1, 0],
+    [0, 2, 1],
+    [1, 2, 2],
+  ];
+  let total = 0;
+  for (const [a, b, k] of pairs) {
+    const cov = m.cross[k] / n - (m.sum[a] / n) * (m.sum[b] / n);
+    const denom = Math.sqrt(channelVariance(m, a) * channelVariance(m, b));
+    // Flat channels carry no grain; treat them as moving with the rest
+    total += denom > 0 ? cov / denom : 1;
+  }
+  return total / pairs.length;
+}
+
+/* ────────────────────────────────────────────────────────
+   Spectrum
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Power spectrum of the largest centred power-of-two square of the
+ * residual grid, Hann-windowed to suppress edge leakage.  Transparent
+ * (NaN) residuals count as zero.
+ */
+function residualSpectrum(
+  residuals: number[],
+  width: number,
+  height: number
+): { power: Float64Array | null; size: number } {
+  const size = floorPowerOfTwo(Math.min(width, height));
+  if (size < 8) return { power: null, size };
+
+  const x0 = Math.floor((width - size) / 2);
+  const y0 = Math.floor((height - size) / 2);
+  const hann = (i: number) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+
+  const values = new Float64Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = residuals[(y0 + y) * width + x0 + x];
+      values[y * size + x] = Number.isNaN(v) ? 0 : v * hann(x) * hann(y);
+    }
+  }
+  return { power: powerSpectrum2D(values, size), size };
+}
+
+/**
+ * Characterise a residual power spectrum.
+ *
+ * The spectrum is first divided by the box high-pass's response so the
+ * measurements describe the grain, not the filter.
+ *
+ *  - dominantFrequency: power-weighted mean of the radial profile
+ *  - slope:             log-log slope of the radially averaged power
+ *  - anisotropy/angle:  from the second-moment tensor of the power over
+ *                       frequency direction; spectral energy lies
+ *                       perpendicular to the streaks that cause it
+ *  - pattern:           directional grain with a sharp peak along the
+ *                       spectral axis is periodic (scanlines), otherwise
+ *                       broadband (streaks)
+ *
+ * The lowest frequencies (radius < 2 bins) are skipped: the high-pass
+ * and window have already suppressed them.
+ */
+function describeSpectrum(power: Float64Array, size: number): NoiseSpectrum {
+  const half = size / 2;
+  const radialSum = new Float64Array(half + 1);
+  const radialCount = new Float64Array(half + 1);
+  let total = 0;
+  let suu = 0;
+  let svv = 0;
+  let suv = 0;
+
+  for (let ky = 0; ky < size; ky++) {
+    const v = ky < half ? ky : ky - size;
+    for (let kx = 0; kx < size; kx++) {
+      const u = kx < half ? kx : kx - size;
+      const r = Math.sqrt(u * u + v * v);
+      if (r < 2 || r > half) continue;
+      const response = highPassResponse(u / size, v / size);
+      if (response < 0.05) continue;
+      const p = power[ky * size + kx] / response;
+      const bin = Math.round(r);
+      radialSum[bin] += p;
+      radialCount[bin]++;
+      total += p;
+      suu += (p * u * u) / (r * r);
+      svv += (p * v * v) / (r * r);
+      suv += (p * u * v) / (r * r);
+    }
+  }
+
+  if (total <= 0) {
+    return { dominantFrequency: 0, slope: 0, anisotropy: 0, angle: 0, pattern: "isotropic" };
+  }
+
+  // Centroid and log-log regression of the radial profile
+  let profileSum = 0;
+  let weightedFreq = 0;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0, n = 0;
+  for (let r = 2; r <= half; r++) {
+    if (radialCount[r] === 0) continue;
+    const mean = radialSum[r] / radialCount[r];
+    if (mean <= 0) continue;
+    profileSum += mean;
+    weightedFreq += (r / size) * mean;
+    const lx = Math.log(r / size);
+    const ly = Math.log(mean);
+    sx += lx;
+    sy += ly;
+    sxx += lx * lx;
+    sxy += lx * ly;
+    n++;
+  }
+  const slope = n > 1 ? (n * sxy - sx * sy) / (n * sxx - sx * sx || 1) : 0;
+
+  // Directionality from the eigenvalues of the moment tensor
+  const trace = suu + svv;
+  const diff = Math.sqrt(((suu - svv) / 2) ** 2 + suv ** 2);
+  const anisotropy = trace > 0 ? (2 * diff) / trace : 0;
+  const spectralAngle = 0.5 * Math.atan2(2 * suv, suu - svv);
+  const angle = (((spectralAngle * 180) / Math.PI + 90) % 180 + 180) % 180;
+
+  let pattern: NoiseSpectrum["pattern"] = "isotropic";
+  if (anisotropy >= DIRECTIONAL_ANISOTROPY) {
+    // Sample the power along the spectral axis and look for a sharp peak
+    const dx = Math.cos(spectralAngle);
+    const dy = Math.sin(spectralAngle);
+    const axis: number[] = [];
+    for (let k = 2; k < half; k++) {
+      const u = Math.round(dx * k);
+      const v = Math.round(dy * k);
+      axis.push(power[((v + size) % size) * size + ((u + size) % size)]);
+    }
+    const sorted = [...axis].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)] || 0;
+    const peak = sorted[sorted.length - 1] || 0;
+    pattern = median > 0 && peak / median >= SCANLINE_PEAKINESS ? "scanlines" : "streaks";
+  }
+
+  return {
+    dominantFrequency: round(weightedFreq / (profileSum || 1)),
+    slope: round(slope),
+    anisotropy: round(anisotropy),
+    angle: Math.round(angle) % 180,
+    pattern,
+  };
+}
+
+/**
+ * Turn raw noise statistics into the normalised NoiseInfo fields.
+ */
+function describeNoise(stats: NoiseStats): NoiseInfo {
+  const { avgDiff, alternationRate, residualStdDev, lapVariance, power } = stats;
+  const { channelStdDev, channelCorrelation } = stats;
+
+  // Intensity: scale so typical noisy images land around 0.5-0.8
+  const intensity = Math.min(1, avgDiff * 10);
+
+  let frequency: NoiseInfo["frequency"];
+  if (alternationRate > 0.6) frequency = "fine";
+  else if (alternationRate > 0.35) frequency = "medium";
+  else frequency = "coarse";
+
+  let type: NoiseInfo["type"];
+  if (intensity < 0.15) type = "smooth";
+  else if (frequency === "fine") type = "grain";
+  else type = "speckle";
+
+  // Continuous baseFrequency from alternation rate:
+  // map alternationRate (typically 0.2-0.8) to baseFrequency 0.3-1.0
+  const baseFrequency = round(
+    Math.min(1.0, Math.max(0.3, 0.3 + alternationRate * 0.875))
+  );
+
+  // Contrast — typical residual stddev: 0-2 for smooth images, 5-15 for
+  // grainy.  Map to 0-1 with a ceiling at ~20.
+  const contrast = round(Math.min(1, residualStdDev / 20));
+
+  // Sharpness — typical Laplacian variance of residual: 0-5 for soft
+  // noise, 20-100+ for crispy grain.  Map to 0-1 with ceiling at 80.
   const sharpness = round(Math.min(1, lapVariance / 80));
 
+  // Chroma — fully correlated channels = luminance-only grain.  The tint
+  // is the relative grain strength per channel (white = neutral).  With
+  // no real grain, quantisation steps or leftover edges would give a
+  // random colour, spectrum and response.
+  const hasGrain =
+    residualStdDev >= MIN_SPECTRUM_RESIDUAL && intensity >= MIN_GRAIN_INTENSITY;
+  const chroma = hasGrain
+    ? round(Math.min(1, Math.max(0, 1 - channelCorrelation)))
+    : 0;
+  const maxStd = Math.max(...channelStdDev);
+  const tint = channelStdDev.map((sd) =>
+    hasGrain && maxStd > 0 ? Math.round((sd / maxStd) * 255) : 255
+  ) as [number, number, number];
+
   return {
     intensity: round(intensity),
     frequency,
@@ -157,9 +747,71 @@ export function analyzeNoise(img: RawImageData): NoiseInfo {
     sharpness,
     contrast,
     baseFrequency,
+    spectrum:
+      power && hasGrain
+        ? describeSpectrum(power, stats.spectrumSize)
+        : undefined,
+    chroma,
+    tint: { hex: rgbToHex(tint[0], tint[1], tint[2]), rgb: tint },
+    luminanceResponse: hasGrain ? luminanceResponse(stats) : undefined,
   };
 }
 
+/**
+ * Grain strength per luminance band relative to the strongest band.
+ * Bands with too few samples take the value of the nearest measured
+ * band.  Undefined when fewer than two bands were measured.
+ */
+function luminanceResponse(stats: NoiseStats): number[] | undefined {
+  const strength = stats.bandSumSq.map((sumSq, b) =>
+    stats.bandCount[b] >= MIN_BAND_SAMPLES ? Math.sqrt(sumSq / stats.bandCount[b]) : NaN
+  );
+  const measured = [...strength.keys()].filter((b) => !isNaN(strength[b]));
+  if (measured.length < 2) return undefined;
+
+  const max = Math.max(...measured.map((b) => strength[b]));
+  if (max <= 0) return undefined;
+
+  return strength.map((v, b) => {
+    const nearest = measured.reduce((best, m) =>
+      Math.abs(m - b) < Math.abs(best - b) ? m : best
+    );
+    return round((isNaN(v) ? strength[nearest] : v) / max);
+  });
+}
+
+/**
+ * Power response |1 - H(fx, fy)|² of the residual filter (original minus
+ * a separable box blur) at a frequency in cycles per pixel.
+ */
+function highPassResponse(fx: number, fy: number): number {
+  const taps = 2 * BLUR_RADIUS + 1;
+  const box = (f: number) =>
+    f === 0 ? 1 : Math.sin(Math.PI * f * taps) / (taps * Math.sin(Math.PI * f));
+  return (1 - box(fx) * box(fy)) ** 2;
+}
+
+/** True when every pixel in the (2r+1)² window around (x, y) is opaque. */
+function windowOpaque(
+  img: RawImageData,
+  x: number,
+  y: number,
+  radius: number
+): boolean {
+  if (!img.hasAlpha) return true;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (!isOpaque(img, x + dx, y + dy)) return false;
+    }
+  }
+  return true;
+}
+
+function pixelLuminance(img: RawImageData, x: number, y: number): number {
+  const [r, g, b] = getPixel(img, x, y);
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
 /** Round to 2 decimal places. */
 function round(v: number): number {
   return Math.round(v * 100) / 100;
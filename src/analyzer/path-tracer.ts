@@ -0,0 +1,289 @@
+/**
+ * Region path tracer.
+ *
+ * Turns a region of the assignment map into a ready-to-use SVG path:
+ * marching squares traces every boundary loop, the staircase outline is
+ * smoothed and simplified (Ramer–Douglas–Peucker), and the remaining
+ * vertices are joined with Catmull-Rom cubic béziers.  Coordinates are
+ * normalised 0-1 per axis, for an SVG with viewBox="0 0 1 1" and
+ * preserveAspectRatio="none"; holes are separate subpaths, so fill with
+ * fill-rule="evenodd".
+ */
+
+import { ClusterAssignments } from "./edge-sharpness";
+import { FidelityLevel, Point2D } from "../types";
+
+/** Simplification tolerance (analysis px) per fidelity level. */
+const SIMPLIFY_TOLERANCE: Record<FidelityLevel, number> = {
+  exact: 0.75,
+  vibe: 1.5,
+  inspired: 3,
+};
+
+/** Most subpaths (outlines and holes) kept per fidelity level. */
+const MAX_SUBPATHS: Record<FidelityLevel, number> = {
+  exact: 12,
+  vibe: 6,
+  inspired: 3,
+};
+
+/** Smoothing passes over the traced outline before simplifying. */
+const SMOOTHING_PASSES = 2;
+
+/** Loops enclosing less than this share of the image are dropped as
+ *  specks (the largest loop is always kept). */
+const MIN_LOOP_AREA = 0.001;
+
+/**
+ * Marching-squares segments per cell case (tl·8 + tr·4 + br·2 + bl),
+ * as pairs of edge names.  Saddles (5, 10) join their inside corners,
+ * matching the 8-connected regions of the region splitter.
+ */
+const SEGMENTS: Array<Array<[Edge, Edge]>> = [
+  [],
+  [["left", "bottom"]],
+  [["bottom", "right"]],
+  [["left", "right"]],
+  [["top", "right"]],
+  [
+    ["top", "left"],
+    ["bottom", "right"],
+  ],
+  [["top", "bottom"]],
+  [["top", "left"]],
+  [["top", "left"]],
+  [["top", "bottom"]],
+  [
+    ["top", "right"],
+    ["left", "bottom"],
+  ],
+  [["top", "right"]],
+  [["left", "right"]],
+  [["bottom", "right"]],
+  [["left", "bottom"]],
+  [],
+];
+
+type Edge = "top" | "right" | "bottom" | "left";
+
+/**
+ * Trace `region`'s boundary as a normalised SVG path string, or null
+ * when the region is empty or too thin to outline.
+ */
+export function traceRegionPath(
+  assignments: ClusterAssignments,
+  width: number,
+  height: number,
+  region: number,
+  fidelity: FidelityLevel = "vibe"
+): string | null {
+  const loops = marchingSquares(assignments, width, height, region)
+    .map((loop) => ({ loop, area: Math.abs(loopArea(loop)) }))
+    .sort((a, b) => b.area - a.area);
+  const tolerance = SIMPLIFY_TOLERANCE[fidelity];
+  const minArea = Math.max(1, MIN_LOOP_AREA * width * height);
+
+  const subpaths: string[] = [];
+  for (const [i, { loop, area }] of loops.entries()) {
+    if (subpaths.length >= MAX_SUBPATHS[fidelity]) break;
+    if (i > 0 && area < minArea) break;
+
+    // Thin outlines collapse at full tolerance; the main outline retries finer
+    const smoothed = smoothLoop(loop, SMOOTHING_PASSES);
+    let simplified = simplifyLoop(smoothed, tolerance);
+    for (let t = tolerance / 2; i === 0 && simplified.length < 3 && t > 0.05; t /= 2) {
+      simplified = simplifyLoop(smoothed, t);
+    }
+    if (simplified.length < 3) continue;
+
+    const normalised = simplified.map((p) => ({
+      x: clamp01(p.x / (width - 1 || 1)),
+      y: clamp01(p.y / (height - 1 || 1)),
+    }));
+    subpaths.push(catmullRomPath(normalised));
+  }
+
+  return subpaths.length > 0 ? subpaths.join(" ") : null;
+}
+
+/* ────────────────────────────────────────────────────────
+   Marching squares
+   ──────────────────────────────────────────────────────── */
+
+/**
+ * Closed boundary loops of the region, in pixel coordinates (pixel
+ * centres at integers).  The grid is padded with outside cells so loops
+ * touching the image edge still close.
+ */
+function marchingSquares(
+  assignments: ClusterAssignments,
+  width: number,
+  height: number,
+  region: number
+): Point2D[][] {
+  const inside = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && assignments[y * width + x] === region
+      ? 1
+      : 0;
+
+  // Points are keyed in half-pixel units so edge midpoints stay integral
+  const key = (hx: number, hy: number) => `${hx},${hy}`;
+  const links = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    links.set(a, [...(links.get(a) ?? []), b]);
+    links.set(b, [...(links.get(b) ?? []), a]);
+  };
+
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      const index =
+        inside(x, y) * 8 + inside(x + 1, y) * 4 + inside(x + 1, y + 1) * 2 + inside(x, y + 1);
+      for (const [from, to] of SEGMENTS[index]) {
+        link(edgePoint(x, y, from, key), edgePoint(x, y, to, key));
+      }
+    }
+  }
+
+  // Every boundary point has exactly two links: walk each loop once
+  const visited = new Set<string>();
+  const loops: Point2D[][] = [];
+  for (const start of links.keys()) {
+    if (visited.has(start)) continue;
+    const loop: Point2D[] = [];
+    let prev = "";
+    let current = start;
+    while (!visited.has(current)) {
+      visited.add(current);
+      const [hx, hy] = current.split(",").map(Number);
+      loop.push({ x: hx / 2, y: hy / 2 });
+      const next = links.get(current)!.find((n) => n !== prev && !visited.has(n));
+      if (!next) break;
+      prev = current;
+      current = next;
+    }
+    if (loop.length >= 3) loops.push(loop);
+  }
+  return loops;
+}
+
+/** Key of the midpoint of one edge of the cell whose top-left pixel is (x, y). */
+function edgePoint(
+  x: number,
+  y: number,
+  edge: Edge,
+  key: (hx: number, hy: number) => string
+): string {
+  switch (edge) {
+    case "top":
+      return key(2 * x + 1, 2 * y);
+    case "right":
+      return key(2 * x + 2, 2 * y + 1);
+    case "bottom":
+      return key(2 * x + 1, 2 * y + 2);
+    case "left":
+      return key(2 * x, 2 * y + 1);
+  }
+}
+
+/* ────────────────────────────────────────────────────────
+   Smoothing, simplification and curve fitting
+   ──────────────────────────────────────────────────────── */
+
+/** Signed shoelace area of a closed loop. */
+function loopArea(loop: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/** Average each point with its neighbours to round off the staircase. */
+function smoothLoop(loop: Point2D[], passes: number): Point2D[] {
+  let points = loop;
+  for (let pass = 0; pass < passes; pass++) {
+    points = points.map((p, i) => {
+      const prev = points[(i - 1 + points.length) % points.length];
+      const next = points[(i + 1) % points.length];
+      return { x: (prev.x + 2 * p.x + next.x) / 4, y: (prev.y + 2 * p.y + next.y) / 4 };
+    });
+  }
+  return points;
+}
+
+/**
+ * Ramer–Douglas–Peucker on a closed loop: split at the point farthest
+ * from the first, then simplify both halves as open polylines.
+ */
+function simplifyLoop(loop: Point2D[], tolerance: number): Point2D[] {
+  let far = 0;
+  let farDist = -1;
+  for (let i = 1; i < loop.length; i++) {
+    const d = Math.hypot(loop[i].x - loop[0].x, loop[i].y - loop[0].y);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  }
+  const first = simplifyPolyline(loop.slice(0, far + 1), tolerance);
+  const second = simplifyPolyline([...loop.slice(far), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function simplifyPolyline(points: Point2D[], tolerance: number): Point2D[] {
+  if (points.length <= 2) return points;
+  const a = points[0];
+  const b = points[points.length - 1];
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+
+  let index = 0;
+  let maxDist = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const d = Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / len;
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= tolerance) return [a, b];
+
+  const left = simplifyPolyline(points.slice(0, index + 1), tolerance);
+  const right = simplifyPolyline(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Closed path through the points with Catmull-Rom tangents, written as
+ * cubic béziers: the controls for P1 → P2 are P1 + (P2 − P0) / 6 and
+ * P2 − (P3 − P1) / 6.
+ */
+function catmullRomPath(points: Point2D[]): string {
+  const n = points.length;
+  const at = (i: number) => points[(i + n) % n];
+  // Controls can overshoot near the image edge; keep them inside it
+  const fmt = (p: Point2D) => `${round3(clamp01(p.x))},${round3(clamp01(p.y))}`;
+
+  const parts = [`M${fmt(points[0])}`];
+  for (let i = 0; i < n; i++) {
+    const p0 = at(i - 1);
+    const p1 = at(i);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    parts.push(`C${fmt(c1)} ${fmt(c2)} ${fmt(p2)}`);
+  }
+  parts.push("Z");
+  return parts.join(" ");
+}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v));
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
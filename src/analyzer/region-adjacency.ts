@@ -0,0 +1,88 @@
+/**
+ * Region adjacency analyser.
+ *
+ * Records which colour regions touch, how long their shared border is,
+ * and the colour actually found where they meet.  Blending two blobs in
+ * sRGB passes through whatever lies on the straight line between them
+ * (blue → orange goes through grey); the measured midpoint lets the
+ * generator keep the reference's in-between hue instead.
+ */
+
+import { RawImageData, getPixel } from "../utils/image";
+import { rgbToHex } from "../utils/color";
+import { ClusterAssignments, TRANSPARENT } from "./edge-sharpness";
+import { ColorRegion, RegionAdjacency } from "../types";
+
+/** Shared border pixels needed before two regions count as adjacent. */
+const MIN_BORDER_PIXELS = 3;
+
+/**
+ * Build the adjacency graph of the regions in `assignments`, longest
+ * shared border first.  Each 4-connected pair of pixels from different
+ * regions adds one unit of border; the midpoint colour and position are
+ * the means over both pixels of every pair.
+ */
+export function buildAdjacency(
+  img: RawImageData,
+  colors: ColorRegion[],
+  assignments: ClusterAssignments
+): RegionAdjacency[] {
+  const w = img.width;
+  const h = img.height;
+  const edges = new Map<
+    number,
+    { count: number; rgb: [number, number, number]; x: number; y: number }
+  >();
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const a = assignments[y * w + x];
+      if (a === TRANSPARENT) continue;
+
+      for (const [dx, dy] of [
+        [1, 0],
+        [0, 1],
+      ]) {
+        if (x + dx >= w || y + dy >= h) continue;
+        const b = assignments[(y + dy) * w + x + dx];
+        if (b === TRANSPARENT || b === a) continue;
+
+        const key = Math.min(a, b) * colors.length + Math.max(a, b);
+        let edge = edges.get(key);
+        if (!edge) {
+          edge = { count: 0, rgb: [0, 0, 0], x: 0, y: 0 };
+          edges.set(key, edge);
+        }
+        const p = getPixel(img, x, y);
+        const q = getPixel(img, x + dx, y + dy);
+        edge.count++;
+        for (let c = 0; c < 3; c++) edge.rgb[c] += (p[c] + q[c]) / 2;
+        edge.x += x + dx / 2;
+        edge.y += y + dy / 2;
+      }
+    }
+  }
+
+  const longEdge = Math.max(w, h);
+  const adjacency: RegionAdjacency[] = [];
+  for (const [key, edge] of edges) {
+    if (edge.count < MIN_BORDER_PIXELS) continue;
+    const rgb = edge.rgb.map((v) => Math.round(v / edge.count)) as [
+      number,
+      number,
+      number,
+    ];
+    adjacency.push({
+      a: Math.floor(key / colors.length),
+      b: key % colors.length,
+      borderLength: Math.round((edge.count / longEdge) * 100) / 100,
+      midpoint: { hex: rgbToHex(rgb[0], rgb[1], rgb[2]), rgb },
+      position: {
+        x: Math.round((edge.x / edge.count / (w - 1 || 1)) * 100) / 100,
+        y: Math.round((edge.y / edge.count / (h - 1 || 1)) * 100) / 100,
+      },
+    });
+  }
+
+  return adjacency.sort((p, q) => q.borderLength - p.borderLength);
+}
@@ -1,86 +1,363 @@
 /**
- * Region mapper — detects vignette and overall mood.
+ * Region mapper — detects vignette, transparency and overall mood.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
-import { luminance, rgbToHsl } from "../utils/color";
-import { VignetteInfo, MoodInfo } from "../types";
+import { RawImageData, getPixel, isOpaque } from "../utils/image";
+import { luminance, rgbToHsl, rgbToHex } from "../utils/color";
+import { VignetteInfo, MoodInfo, TransparencyInfo, GlowInfo } from "../types";
+
+/** Candidate vignette centres, per axis (0-1). */
+const VIGNETTE_CENTERS = [0.3, 0.4, 0.5, 0.6, 0.7];
+
+/** Candidate ellipse aspects (horizontal / vertical radius, per-axis units). */
+const VIGNETTE_ASPECTS = [0.6, 0.8, 1, 1.25, 1.67];
+
+/** An off-centre or non-default ellipse must beat the centred fit by this factor. */
+const VIGNETTE_FIT_MARGIN = 1.15;
+
+/** Angular sectors of the edge ring that must all agree on the vignette. */
+const VIGNETTE_SECTORS = 8;
+
+/** Glow pixels left out of the vignette fit, in multiples of the glow radius
+ *  (the fitted radius sits where the core fades, not where its tail ends). */
+const GLOW_MASK_SCALE = 1.5;
+
+/** Radial bins used to locate the falloff start and end. */
+const FALLOFF_BINS = 10;
+
+interface VignetteFit {
+  cx: number;
+  cy: number;
+  aspect: number;
+  /** 1 = dark edges, -1 = bright edges */
+  sign: number;
+  /** Mean centre-vs-edge luminance difference (signed by `sign`) */
+  diff: number;
+  /** Weakest sector's difference — the fit score */
+  score: number;
+}
+
+interface LumSample {
+  u: number;
+  v: number;
+  lum: number;
+  rgb: [number, number, number];
+}
 
 /**
- * Detect vignetting by comparing average edge brightness to centre brightness.
+ * Detect vignetting by comparing edge brightness to centre brightness.
+ *
+ * Searches a small grid of ellipse centres and aspects for the best
+ * centre-vs-edge contrast, in either direction, so off-centre, stretched
+ * and inverse (bright-edged) vignettes are found.  Fits are scored by
+ * their weakest angular sector of the edge ring, and every sector must
+ * agree, which keeps one-sided linear gradients from reading as
+ * vignettes and favours ellipses centred on the real falloff.
+ * Distances are elliptical in per-axis units, matching the `ellipse`
+ * shape CSS uses on non-square containers.
+ *
+ * Pixels inside the detected `glows` are left out of the fit: a bright
+ * focal glow also makes the centre brighter than the edges, but it is
+ * rendered as its own layer and must not be reported as a vignette.
  */
-export function detectVignette(img: RawImageData): VignetteInfo {
-  const edgePixels: number[] = [];
-  const centerPixels: number[] = [];
-
-  const cx = img.width / 2;
-  const cy = img.height / 2;
-  const maxDist = Math.sqrt(cx * cx + cy * cy);
+export function detectVignette(
+  img: RawImageData,
+  glows: GlowInfo[] = []
+): VignetteInfo {
+  const longEdge = Math.max(img.width, img.height);
+  const insideGlow = (x: number, y: number) =>
+    glows.some(
+      (g) =>
+        Math.hypot(x - g.position.x * (img.width - 1), y - g.position.y * (img.height - 1)) <
+        g.radius * longEdge * GLOW_MASK_SCALE
+    );
 
+  const samples: LumSample[] = [];
   for (let y = 0; y < img.height; y++) {
     for (let x = 0; x < img.width; x++) {
-      const [r, g, b] = getPixel(img, x, y);
-      const lum = luminance(r, g, b);
-      const dist = Math.sqrt((x - cx) ** 2 + (y - cy) ** 2) / maxDist;
+      if (!isOpaque(img, x, y) || insideGlow(x, y)) continue;
+      const rgb = getPixel(img, x, y);
+      samples.push({
+        u: x / (img.width - 1 || 1),
+        v: y / (img.height - 1 || 1),
+        lum: luminance(rgb[0], rgb[1], rgb[2]),
+        rgb,
+      });
+    }
+  }
 
-      if (dist < 0.35) {
-        centerPixels.push(lum);
-      } else if (dist > 0.65) {
-        edgePixels.push(lum);
+  // The centred fit is the reference; others must clearly beat it
+  let best = fitVignette(samples, 0.5, 0.5, 1);
+  const threshold = (best?.score ?? 0) * VIGNETTE_FIT_MARGIN;
+  for (const cy of VIGNETTE_CENTERS) {
+    for (const cx of VIGNETTE_CENTERS) {
+      for (const aspect of VIGNETTE_ASPECTS) {
+        const fit = fitVignette(samples, cx, cy, aspect);
+        if (fit && fit.score > threshold && (!best || fit.score > best.score)) {
+          best = fit;
+        }
       }
     }
   }
 
-  const avgCenter =
-    centerPixels.reduce((a, b) => a + b, 0) / (centerPixels.length || 1);
-  const avgEdge =
-    edgePixels.reduce((a, b) => a + b, 0) / (edgePixels.length || 1);
+  if (!best) return { detected: false };
 
-  // Vignette strength: how much darker edges are than centre
-  const diff = Math.max(0, avgCenter - avgEdge);
-  const strength = Math.min(1, diff / 0.4); // 0.4 luminance diff ≈ full vignette
+  // Vignette strength: how much darker (or brighter) edges are than centre
+  const strength = Math.min(1, best.diff / 0.4); // 0.4 luminance diff ≈ full vignette
+  if (strength <= 0.1) return { detected: false };
+  const { falloff, tint } = describeFalloff(samples, best);
 
   return {
-    detected: strength > 0.1,
+    detected: true,
     strength: Math.round(strength * 100) / 100,
+    type: best.sign > 0 ? "dark" : "bright",
+    center: {
+      x: Math.round(best.cx * 100) / 100,
+      y: Math.round(best.cy * 100) / 100,
+    },
+    aspect: best.aspect,
+    falloff,
+    tint: { hex: rgbToHex(tint[0], tint[1], tint[2]), rgb: tint },
   };
 }
 
 /**
- * Determine overall mood (colour temperature + brightness).
+ * Vertical radius of an ellipse centred at (cx, cy) with the given
+ * aspect that passes through the farthest image corner.
+ */
+function vignetteRadius(cx: number, cy: number, aspect: number): number {
+  const du = Math.max(cx, 1 - cx);
+  const dv = Math.max(cy, 1 - cy);
+  return Math.sqrt((du / aspect) ** 2 + dv ** 2);
+}
+
+/** Normalised elliptical distance, 0 at the centre and 1 at the farthest corner. */
+function vignetteDistance(
+  s: LumSample,
+  cx: number,
+  cy: number,
+  aspect: number,
+  ry: number
+): number {
+  return Math.sqrt(((s.u - cx) / (aspect * ry)) ** 2 + ((s.v - cy) / ry) ** 2);
+}
+
+/**
+ * Score one candidate ellipse.  Returns null unless the centre disc and
+ * at least six edge-ring sectors are populated and every sector differs
+ * from the centre in the same direction.
+ */
+function fitVignette(
+  samples: LumSample[],
+  cx: number,
+  cy: number,
+  aspect: number
+): VignetteFit | null {
+  const ry = vignetteRadius(cx, cy, aspect);
+  let centerSum = 0;
+  let centerCount = 0;
+  const sectorSum = new Float64Array(VIGNETTE_SECTORS);
+  const sectorCount = new Float64Array(VIGNETTE_SECTORS);
+
+  for (const s of samples) {
+    const dist = vignetteDistance(s, cx, cy, aspect, ry);
+    if (dist < 0.35) {
+      centerSum += s.lum;
+      centerCount++;
+    } else if (dist > 0.65) {
+      const angle = Math.atan2((s.v - cy) / ry, (s.u - cx) / (aspect * ry));
+      const sector =
+        Math.floor(((angle + Math.PI) / (2 * Math.PI)) * VIGNETTE_SECTORS) %
+        VIGNETTE_SECTORS;
+      sectorSum[sector] += s.lum;
+      sectorCount[sector]++;
+    }
+  }
+
+  if (centerCount === 0) return null;
+  const avgCenter = centerSum / centerCount;
+
+  const diffs: number[] = [];
+  for (let i = 0; i < VIGNETTE_SECTORS; i++) {
+    if (sectorCount[i] > 0) diffs.push(avgCenter - sectorSum[i] / sectorCount[i]);
+  }
+  if (diffs.length < 6) return null;
+
+  const sign = diffs.reduce((a, b) => a + b, 0) >= 0 ? 1 : -1;
+  if (diffs.some((d) => d * sign <= 0)) return null;
+
+  const diff = (diffs.reduce((a, b) => a + b, 0) / diffs.length) * sign;
+  const score = Math.min(...diffs.map((d) => d * sign));
+  return { cx, cy, aspect, sign, diff, score };
+}
+
+/**
+ * Sample the radial luminance profile of a fitted vignette to find where
+ * the falloff starts and ends, and the colour the edges fall towards.
+ * Neutral edges snap to pure black (or white for inverse vignettes).
+ */
+function describeFalloff(
+  samples: LumSample[],
+  fit: VignetteFit
+): { falloff: { start: number; end: number }; tint: [number, number, number] } {
+  const ry = vignetteRadius(fit.cx, fit.cy, fit.aspect);
+  const sums = new Float64Array(FALLOFF_BINS);
+  const counts = new Float64Array(FALLOFF_BINS);
+  const edge = [0, 0, 0];
+  let edgeCount = 0;
+
+  for (const s of samples) {
+    const dist = vignetteDistance(s, fit.cx, fit.cy, fit.aspect, ry);
+    const bin = Math.min(FALLOFF_BINS - 1, Math.floor(dist * FALLOFF_BINS));
+    sums[bin] += s.lum;
+    counts[bin]++;
+    if (dist > 0.8) {
+      edge[0] += s.rgb[0];
+      edge[1] += s.rgb[1];
+      edge[2] += s.rgb[2];
+      edgeCount++;
+    }
+  }
+
+  // Profile normalised 0 (centre level) → 1 (edge level)
+  const profile: Array<{ bin: number; p: number }> = [];
+  let inner = NaN;
+  let outer = NaN;
+  for (let i = 0; i < FALLOFF_BINS; i++) {
+    if (counts[i] === 0) continue;
+    const lum = sums[i] / counts[i];
+    if (isNaN(inner)) inner = lum;
+    outer = lum;
+    profile.push({ bin: i, p: lum });
+  }
+  const range = inner - outer || 1;
+  for (const entry of profile) entry.p = (inner - entry.p) / range;
+
+  const startBin = profile.find((e) => e.p >= 0.1)?.bin ?? 0;
+  const endBin = profile.find((e) => e.p >= 0.9)?.bin ?? FALLOFF_BINS - 1;
+  const start = startBin / FALLOFF_BINS;
+  const end = Math.max(start + 0.1, (endBin + 1) / FALLOFF_BINS);
+
+  let tint: [number, number, number] = fit.sign > 0 ? [0, 0, 0] : [255, 255, 255];
+  if (edgeCount > 0) {
+    const avg = edge.map((c) => Math.round(c / edgeCount)) as [number, number, number];
+    const [, sat] = rgbToHsl(avg[0], avg[1], avg[2]);
+    if (sat >= 0.15) tint = avg;
+  }
+
+  return {
+    falloff: {
+      start: Math.round(start * 100) / 100,
+      end: Math.round(Math.min(1, end) * 100) / 100,
+    },
+    tint,
+  };
+}
+
+/** Share of non-opaque pixels at which the reference counts as transparent. */
+const MIN_TRANSPARENT_COVERAGE = 0.01;
+
+/**
+ * Report how much of the image is not fully opaque, and whether that is
+ * enough for the reference to count as transparent — a few stray
+ * translucent pixels (anti-aliased corners, an encoder's edge) are not.
+ */
+export function detectTransparency(img: RawImageData): TransparencyInfo {
+  if (!img.hasAlpha) return { detected: false, coverage: 0 };
+
+  let translucent = 0;
+  for (let i = 0; i < img.alpha.length; i++) {
+    if (img.alpha[i] < 255) translucent++;
+  }
+  const share = translucent / img.alpha.length;
+  return {
+    detected: share >= MIN_TRANSPARENT_COVERAGE,
+    coverage: Math.round(share * 100) / 100,
+  };
+}
+
+/* ────────────────────────────────────────────────────────
+   Mood
+   ──────────────────────────────────────────────────────── */
+
+/** Hue names for 30° sectors, centred on 0°, 30°, 60° … */
+const HUE_NAMES = [
+  "red",
+  "orange",
+  "yellow",
+  "chartreuse",
+  "green",
+  "spring green",
+  "cyan",
+  "azure",
+  "blue",
+  "violet",
+  "magenta",
+  "rose",
+];
+
+/** Share of the saturated pixels a hue sector needs to count as dominant. */
+const MIN_HUE_SHARE = 0.1;
+
+/** Dominant hues reported. */
+const MAX_HUES = 4;
+
+/**
+ * Determine overall mood: colour temperature, brightness, and palette
+ * statistics — circular mean hue and spread, saturation, luminance
+ * contrast, dominant named hues and the harmony between them.
  */
 export function detectMood(img: RawImageData): MoodInfo {
-  let totalHue = 0;
   let totalSat = 0;
-  let totalLum = 0;
+  let hueX = 0;
+  let hueY = 0;
+  let saturatedWeight = 0;
   let saturatedCount = 0;
-  const pixelCount = img.width * img.height;
+  let pixelCount = 0;
+  const lums: number[] = [];
+  const sectors = HUE_NAMES.map(() => ({ weight: 0, x: 0, y: 0 }));
 
   for (let y = 0; y < img.height; y++) {
     for (let x = 0; x < img.width; x++) {
+      if (!isOpaque(img, x, y)) continue;
+      pixelCount++;
       const [r, g, b] = getPixel(img, x, y);
-      const [h, s, l] = rgbToHsl(r, g, b);
-      totalLum += luminance(r, g, b);
+      const [h, s] = rgbToHsl(r, g, b);
+      lums.push(luminance(r, g, b));
+      totalSat += s;
 
-      // Only consider saturated pixels for temperature
+      // Only saturated pixels carry a meaningful hue.  Hues are averaged
+      // as unit vectors weighted by saturation, so 350° and 10° meet at 0°.
       if (s > 0.1) {
-        totalHue += h;
-        totalSat += s;
+        const rad = (h * Math.PI) / 180;
+        hueX += s * Math.cos(rad);
+        hueY += s * Math.sin(rad);
+        saturatedWeight += s;
         saturatedCount++;
+
+        const sector = sectors[Math.round(h / 30) % HUE_NAMES.length];
+        sector.weight += s;
+        sector.x += s * Math.cos(rad);
+        sector.y += s * Math.sin(rad);
       }
     }
   }
 
-  const avgLum = totalLum / pixelCount;
+  lums.sort((a, b) => a - b);
+  const avgLum = lums.reduce((a, b) => a + b, 0) / (lums.length || 1);
+  const percentile = (p: number) =>
+    lums.length ? lums[Math.min(lums.length - 1, Math.floor(p * lums.length))] : 0;
 
-  // Temperature from average hue of saturated pixels
+  const hasHue = saturatedCount > pixelCount * 0.05;
+  const meanHue = hasHue ? circularDegrees(hueX, hueY) : undefined;
+
+  // Temperature from the circular mean hue of saturated pixels
   let temperature: MoodInfo["temperature"] = "neutral";
-  if (saturatedCount > pixelCount * 0.05) {
-    const avgHue = totalHue / saturatedCount;
+  if (meanHue !== undefined) {
     // Warm hues: 0-60 (reds/oranges/yellows) or 300-360 (magentas)
-    if ((avgHue >= 0 && avgHue <= 70) || avgHue >= 300) {
+    if (meanHue <= 70 || meanHue >= 300) {
       temperature = "warm";
-    } else if (avgHue >= 160 && avgHue <= 280) {
+    } else if (meanHue >= 160 && meanHue <= 280) {
       temperature = "cool";
     }
   }
@@ -92,5 +369,85 @@ export function detectMood(img: RawImageData): MoodInfo {
   else if (avgLum < 0.75) brightness = "medium-bright";
   else brightness = "bright";
 
-  return { temperature, brightness };
+  const hues = hasHue
+    ? sectors
+        .map((sec, i) => ({
+          name: HUE_NAMES[i],
+          hue: Math.round(circularDegrees(sec.x, sec.y)),
+          share: sec.weight / saturatedWeight,
+        }))
+        .filter((h) => h.share >= MIN_HUE_SHARE)
+        .sort((a, b) => b.share - a.share)
+        .slice(0, MAX_HUES)
+        .map((h) => ({ ...h, share: round2(h.share) }))
+    : [];
+
+  return {
+    temperature,
+    brightness,
+    hue: meanHue === undefined ? undefined : Math.round(meanHue),
+    hueSpread: hasHue
+      ? round2(1 - Math.hypot(hueX, hueY) / saturatedWeight)
+      : undefined,
+    saturation: round2(totalSat / (pixelCount || 1)),
+    contrast: round2(percentile(0.95) - percentile(0.05)),
+    harmony: classifyHarmony(hues.map((h) => h.hue)),
+    hues,
+  };
+}
+
+/** Angle of the vector (x, y) in degrees, 0-360. */
+function circularDegrees(x: number, y: number): number {
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/** Smallest angle between two hues, 0-180. */
+function hueGap(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/**
+ * Classify the palette from its dominant hues.  Neighbouring sectors
+ * (≤ 45° apart) are merged into one hue group first, then the groups'
+ * spacing decides: one group is monochrome, groups within a 90° arc are
+ * analogous, two opposite groups complementary, three evenly spaced
+ * groups triadic, and a hue with two neighbours of its complement
+ * split-complementary.  Anything else is complex.
+ */
+function classifyHarmony(hues: number[]): NonNullable<MoodInfo["harmony"]> {
+  const groups: number[] = [];
+  for (const hue of hues) {
+    if (!groups.some((g) => hueGap(g, hue) <= 45)) groups.push(hue);
+  }
+  if (groups.length <= 1) return "monochrome";
+
+  const gaps: number[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) gaps.push(hueGap(groups[i], groups[j]));
+  }
+  if (Math.max(...gaps) <= 90) return "analogous";
+
+  if (groups.length === 2) {
+    return gaps[0] >= 150 ? "complementary" : "complex";
+  }
+
+  if (groups.length === 3) {
+    if (gaps.every((g) => g >= 100 && g <= 140)) return "triadic";
+    const split = groups.some((key) => {
+      const others = groups.filter((g) => g !== key);
+      return (
+        others.every((g) => hueGap(key, g) >= 120) &&
+        hueGap(others[0], others[1]) <= 90
+      );
+    });
+    if (split) return "split-complementary";
+  }
+
+  return "complex";
+}
+
+/** Round to 2 decimal places. */
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
 }
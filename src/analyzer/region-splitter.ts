@@ -0,0 +1,262 @@
+/**
+ * Spatial region splitter.
+ *
+ * k-means clusters by colour only, so one cluster can cover several
+ * disconnected patches (the same amber glow in two opposite corners).
+ * A single centroid for such a cluster lands in the empty space between
+ * them.  This module runs connected-component labelling on the cluster
+ * assignment map and emits one ColorRegion per significant blob, each
+ * with its own position, weight, spread and principal axes.
+ */
+
+import { RawImageData, AspectFrame, aspectFrame } from "../utils/image";
+import { ColorRegion } from "../types";
+import { ClusterAssignments, TRANSPARENT } from "./edge-sharpness";
+
+/** Minimum component size, as a fraction of image area, to stand alone. */
+const MIN_REGION_AREA = 0.01;
+
+/** Cap on regions emitted per colour cluster (largest blobs win). */
+const MAX_REGIONS_PER_CLUSTER = 4;
+
+/** Result of connected-component labelling. */
+export interface ComponentLabels {
+  /** labels[y * width + x] = component index */
+  labels: Int32Array;
+  /** Pixel count per component */
+  sizes: number[];
+  /** Source cluster index per component */
+  clusters: number[];
+}
+
+/**
+ * Label 8-connected components of equal cluster index.
+ */
+export function labelComponents(
+  assignments: ClusterAssignments,
+  width: number,
+  height: number
+): ComponentLabels {
+  const labels = new Int32Array(width * height).fill(-1);
+  const sizes: number[] = [];
+  const clusters: number[] = [];
+  const queue = new Int32Array(width * height);
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== -1) continue;
+
+    const label = sizes.length;
+    const cluster = assignments[start];
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+
+    while (head < tail) {
+      const idx = queue[head++];
+      const x = idx % width;
+      const y = (idx - x) / width;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const nIdx = ny * width + nx;
+          if (labels[nIdx] !== -1 || assignments[nIdx] !== cluster) continue;
+          labels[nIdx] = label;
+          queue[tail++] = nIdx;
+        }
+      }
+    }
+
+    sizes.push(tail);
+    clusters.push(cluster);
+  }
+
+  return { labels, sizes, clusters };
+}
+
+/**
+ * Split every colour cluster into its significant connected blobs.
+ *
+ * A blob is significant when it covers at least MIN_REGION_AREA of the
+ * image; each cluster's largest blob is always kept so no colour is lost.
+ * Insignificant specks are folded into the nearest kept blob of the same
+ * colour.  Transparent pixels stay TRANSPARENT.
+ *
+ * Returns the new regions (sorted by weight, edgeSharpness reset for the
+ * edge analyser) and a matching assignment map whose values index into
+ * the returned regions.
+ */
+export function splitDisjointRegions(
+  img: RawImageData,
+  colors: ColorRegion[],
+  assignments: ClusterAssignments
+): { regions: ColorRegion[]; assignments: ClusterAssignments } {
+  const w = img.width;
+  const h = img.height;
+  const total = w * h;
+  const { labels, sizes, clusters } = labelComponents(assignments, w, h);
+
+  // Component centroids (pixel coordinates)
+  const sumX = new Float64Array(sizes.length);
+  const sumY = new Float64Array(sizes.length);
+  for (let i = 0; i < total; i++) {
+    sumX[labels[i]] += i % w;
+    sumY[labels[i]] += Math.floor(i / w);
+  }
+
+  // Choose which components stand alone, per cluster
+  const kept: number[][] = colors.map(() => []);
+  const byCluster: number[][] = colors.map(() => []);
+  for (let comp = 0; comp < sizes.length; comp++) {
+    if (clusters[comp] === TRANSPARENT) continue;
+    byCluster[clusters[comp]].push(comp);
+  }
+  for (let c = 0; c < colors.length; c++) {
+    const comps = byCluster[c].sort((a, b) => sizes[b] - sizes[a]);
+    for (const comp of comps) {
+      if (kept[c].length >= MAX_REGIONS_PER_CLUSTER) break;
+      if (kept[c].length > 0 && sizes[comp] < total * MIN_REGION_AREA) break;
+      kept[c].push(comp);
+    }
+  }
+
+  // Map every component to the kept component that will absorb it
+  const owner = new Int32Array(sizes.length).fill(TRANSPARENT);
+  for (let comp = 0; comp < sizes.length; comp++) {
+    if (clusters[comp] === TRANSPARENT) continue;
+    const candidates = kept[clusters[comp]];
+    const cx = sumX[comp] / sizes[comp];
+    const cy = sumY[comp] / sizes[comp];
+    let best = candidates[0];
+    let bestDist = Infinity;
+    for (const k of candidates) {
+      const d =
+        (sumX[k] / sizes[k] - cx) ** 2 + (sumY[k] / sizes[k] - cy) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = k;
+      }
+    }
+    owner[comp] = best;
+  }
+
+  // Gather pixel positions per kept component
+  const keptList = kept.flat();
+  const regionOf = new Map<number, number>();
+  keptList.forEach((comp, i) => regionOf.set(comp, i));
+
+  const regionPixels: Array<Array<{ x: number; y: number }>> = keptList.map(
+    () => []
+  );
+  const regionMap = new Int32Array(total);
+  let opaqueTotal = 0;
+  for (let i = 0; i < total; i++) {
+    if (owner[labels[i]] === TRANSPARENT) {
+      regionMap[i] = TRANSPARENT;
+      continue;
+    }
+    opaqueTotal++;
+    const r = regionOf.get(owner[labels[i]])!;
+    regionMap[i] = r;
+    regionPixels[r].push({
+      x: (i % w) / (w - 1),
+      y: Math.floor(i / w) / (h - 1),
+    });
+  }
+
+  // Build one ColorRegion per kept component
+  const frame = aspectFrame(img);
+  const maxSpread = Math.hypot(frame.sx, frame.sy) / 2;
+  const regions: ColorRegion[] = keptList.map((comp, r) => {
+    const pixels = regionPixels[r];
+    const source = colors[clusters[comp]];
+
+    let cx = 0,
+      cy = 0;
+    for (const p of pixels) {
+      cx += p.x;
+      cy += p.y;
+    }
+    cx /= pixels.length;
+    cy /= pixels.length;
+
+    // Spread = average distance from centroid (isotropic units),
+    // normalised by the max possible distance
+    let spreadSum = 0;
+    for (const p of pixels) {
+      spreadSum += Math.sqrt(
+        ((p.x - cx) * frame.sx) ** 2 + ((p.y - cy) * frame.sy) ** 2
+      );
+    }
+    const spread = Math.min(1, (spreadSum / pixels.length) / maxSpread);
+    const axes = principalAxes(pixels, { x: cx, y: cy }, frame);
+
+    return {
+      hex: source.hex,
+      rgb: source.rgb,
+      position: {
+        x: Math.round(cx * 100) / 100,
+        y: Math.round(cy * 100) / 100,
+      },
+      weight: Math.round((pixels.length / opaqueTotal) * 100) / 100,
+      spread: Math.round(spread * 100) / 100,
+      edgeSharpness: 0, // computed later by edge-sharpness analyser
+      ...axes,
+    };
+  });
+
+  // Sort by weight descending and remap the assignment indices to match
+  const order = regions.map((_, i) => i).sort((a, b) => {
+    return regions[b].weight - regions[a].weight || a - b;
+  });
+  const newIndex = new Int32Array(order.length);
+  order.forEach((oldIdx, newIdx) => (newIndex[oldIdx] = newIdx));
+  for (let i = 0; i < total; i++) {
+    if (regionMap[i] !== TRANSPARENT) regionMap[i] = newIndex[regionMap[i]];
+  }
+
+  return {
+    regions: order.map((i) => regions[i]),
+    assignments: regionMap,
+  };
+}
+
+/**
+ * Principal axes of a region from the covariance of its pixel positions
+ * (isotropic units, so non-square images aren't skewed): the long axis
+ * orientation and the 2σ semi-axis lengths.
+ */
+function principalAxes(
+  pixels: Array<{ x: number; y: number }>,
+  centroid: { x: number; y: number },
+  frame: AspectFrame
+): { axisAngle: number; majorAxis: number; minorAxis: number } {
+  let cxx = 0,
+    cyy = 0,
+    cxy = 0;
+  for (const p of pixels) {
+    const dx = (p.x - centroid.x) * frame.sx;
+    const dy = (p.y - centroid.y) * frame.sy;
+    cxx += dx * dx;
+    cyy += dy * dy;
+    cxy += dx * dy;
+  }
+  cxx /= pixels.length;
+  cyy /= pixels.length;
+  cxy /= pixels.length;
+
+  const half = (cxx + cyy) / 2;
+  const disc = Math.sqrt(Math.max(0, ((cxx - cyy) / 2) ** 2 + cxy * cxy));
+  const angle = (0.5 * Math.atan2(2 * cxy, cxx - cyy) * 180) / Math.PI;
+
+  return {
+    // Round before wrapping, so -0.4° lands on 0 rather than 180
+    axisAngle: (Math.round(angle) + 180) % 180,
+    majorAxis: Math.round(2 * Math.sqrt(half + disc) * 1000) / 1000,
+    minorAxis: Math.round(2 * Math.sqrt(Math.max(0, half - disc)) * 1000) / 1000,
+  };
+}
@@ -3,34 +3,70 @@
  *
  * Detects organic shape characteristics from cluster pixel assignments:
  *   - Global flow direction (dominant gradient orientation)
- *   - Per-region shape type (wave, wisp, veil, angular-veil, ribbon, petal)
+ *   - A coarse flow field of local orientation and strength
+ *   - Per-component shape type (wave, wisp, veil, angular-veil, ribbon, petal)
  *   - Shape parameters (amplitude, tip-point, curvature, vertices…)
+ *   - A traced, normalised SVG path of each contour's region
  *
- * The AI agent uses these as scaffolding — it writes the actual SVG paths
- * using its visual analysis of the reference image.
+ * The parameters remain scaffolding for the AI agent; the traced path can
+ * be used directly or refined with its visual analysis of the reference.
  */
 
-import { RawImageData, getPixel } from "../utils/image";
+import {
+  RawImageData,
+  AspectFrame,
+  aspectFrame,
+  getPixel,
+  isOpaque,
+} from "../utils/image";
 import {
   ColorRegion,
+  FidelityLevel,
   ShapeInfo,
+  FlowField,
   ShapeContour,
   ShapeStyle,
   ShapeType,
   Point2D,
 } from "../types";
-import { ClusterAssignments } from "./edge-sharpness";
+import { ClusterAssignments, TRANSPARENT } from "./edge-sharpness";
+import { traceRegionPath } from "./path-tracer";
+import { labelComponents } from "./region-splitter";
+
+/** Fewest pixels a component needs for meaningful geometry. */
+const MIN_SHAPE_PIXELS = 20;
+
+/** Minimum component size, as a fraction of image area, to be a shape. */
+const MIN_SHAPE_AREA = 0.004;
+
+/** Minimum average width (px) — thinner components are anti-aliasing
+ *  slivers along another region's edge, not shapes. */
+const MIN_SHAPE_WIDTH = 2;
+
+/** Flow field cells per axis. */
+const FLOW_GRID = 8;
+
+/** Luminance gradient below which a pixel counts as flat (no flow). */
+const MIN_FLOW_GRADIENT = 2;
 
 /* ────────────────────────────────────────────────────────
    Public API
    ──────────────────────────────────────────────────────── */
 
+/**
+ * Analyse the organic shapes in the image.  Each 8-connected component
+ * of a region is measured on its own, so two separate ribbons of one
+ * colour become two contours; components under MIN_SHAPE_AREA are
+ * ignored.  `fidelity` sets the detail of the traced contour paths.
+ */
 export function analyzeShapes(
   img: RawImageData,
   colors: ColorRegion[],
-  assignments: ClusterAssignments
+  assignments: ClusterAssignments,
+  fidelity: FidelityLevel = "vibe"
 ): ShapeInfo {
   const flowDirection = computeFlowDirection(img);
+  const flowField = computeFlowField(img, flowDirection);
 
   // Background = highest-weight cluster (largest pixel area)
   const bgIdx = colors.reduce(
@@ -38,25 +74,47 @@ export function analyzeShapes(
     0
   );
 
-  // Analyse each non-background cluster
-  const contours: ShapeContour[] = [];
-  for (let i = 0; i < colors.length; i++) {
-    if (i === bgIdx) continue;
+  // Geometry runs in isotropic units so non-square images aren't skewed
+  const frame = aspectFrame(img);
 
-    const pixels = collectClusterPixels(img, assignments, i);
-    if (pixels.length < 20) continue; // too small for meaningful geometry
+  // Analyse each connected component of the non-background regions, so
+  // one colour can yield several shapes
+  const { labels, sizes, clusters } = labelComponents(
+    assignments,
+    img.width,
+    img.height
+  );
+  const minPixels = Math.max(MIN_SHAPE_PIXELS, img.width * img.height * MIN_SHAPE_AREA);
+  const components = sizes
+    .map((_, comp) => comp)
+    .filter(
+      (comp) =>
+        clusters[comp] !== TRANSPARENT &&
+        clusters[comp] !== bgIdx &&
+        sizes[comp] >= minPixels
+    )
+    .sort((a, b) => sizes[b] - sizes[a]);
+
+  const longEdge = Math.max(img.width, img.height) - 1;
+  const contours: ShapeContour[] = [];
+  for (const comp of components) {
+    const pixels = collectComponentPixels(img, labels, comp, frame);
+    const geom = analyzeGeometry(pixels, img.width, img.height, frame);
+    if (geom.avgThickness * longEdge < MIN_SHAPE_WIDTH) continue;
 
-    const geom = analyzeGeometry(pixels, img.width, img.height);
     const shapeType = classifyShape(geom);
     if (!shapeType) continue; // remains a blob — handled by CSS radials
 
-    contours.push(buildContour(shapeType, geom, colors[i]));
+    const contour = buildContour(shapeType, geom, colors[clusters[comp]], frame);
+    const path = traceRegionPath(labels, img.width, img.height, comp, fidelity);
+    if (path) contour.path = path;
+    contours.push(contour);
   }
 
   const style = computeStyle(contours);
   const complexity = computeComplexity(contours, colors.length);
 
-  return { complexity, flowDirection, style, contours };
+  return { complexity, flowDirection, style, contours, flowField };
 }
 
 /* ────────────────────────────────────────────────────────
@@ -70,19 +128,36 @@ function pixelLuminance(img: RawImageData, x: number, y: number): number {
 
 /**
  * Dominant flow direction in degrees.
- * Computed from a histogram of Sobel gradient orientations, weighted by
- * magnitude. The flow is perpendicular to the dominant gradient.
+ * The flow is perpendicular to the dominant gradient.
  */
 function computeFlowDirection(img: RawImageData): number {
+  return Math.round((dominantGradientAngle(img) + 90) % 360);
+}
+
+/**
+ * Dominant luminance gradient orientation in degrees (0 = right,
+ * 90 = down), pointing from dark towards bright.
+ * Computed from a histogram of Sobel gradient orientations, weighted by
+ * magnitude.
+ */
+export function dominantGradientAngle(img: RawImageData): number {
   const BINS = 36;
   const histogram = new Float64Array(BINS);
 
   for (let y = 1; y < img.height - 1; y++) {
     for (let x = 1; x < img.width - 1; x++) {
+      if (
+        !isOpaque(img, x + 1, y) ||
+        !isOpaque(img, x - 1, y) ||
+        !isOpaque(img, x, y + 1) ||
+        !isOpaque(img, x, y - 1)
+      ) {
+        continue; // transparency edges aren't colour flow
+      }
       const gx = pixelLuminance(img, x + 1, y) - pixelLuminance(img, x - 1, y);
       const gy = pixelLuminance(img, x, y + 1) - pixelLuminance(img, x, y - 1);
       const mag = Math.sqrt(gx * gx + gy * gy);
-      if (mag < 2) continue; // skip flat regions
+      if (mag < MIN_FLOW_GRADIENT) continue; // skip flat regions
 
       let angle = Math.atan2(gy, gx) * (180 / Math.PI);
       if (angle < 0) angle += 360;
@@ -105,26 +180,85 @@ function computeFlowDirection(img: RawImageData): number {
     if (smoothed[i] > smoothed[maxBin]) maxBin = i;
   }
 
-  const gradAngle = (maxBin + 0.5) * (360 / BINS);
-  return Math.round((gradAngle + 90) % 360);
+  return (maxBin + 0.5) * (360 / BINS);
+}
+
+/**
+ * Local flow on a FLOW_GRID × FLOW_GRID grid, from the structure tensor
+ * of the luminance gradient in each cell.  The tensor's principal
+ * orientation is the cell's gradient axis (flow runs across it) and its
+ * coherence — how much of the gradient energy lies on that axis — is the
+ * strength.  Cells without gradient take the global flow at strength 0.
+ */
+function computeFlowField(img: RawImageData, flowDirection: number): FlowField {
+  const cells = FLOW_GRID * FLOW_GRID;
+  const jxx = new Float64Array(cells);
+  const jyy = new Float64Array(cells);
+  const jxy = new Float64Array(cells);
+
+  for (let y = 1; y < img.height - 1; y++) {
+    const row = Math.min(FLOW_GRID - 1, Math.floor((y / img.height) * FLOW_GRID));
+    for (let x = 1; x < img.width - 1; x++) {
+      if (
+        !isOpaque(img, x + 1, y) ||
+        !isOpaque(img, x - 1, y) ||
+        !isOpaque(img, x, y + 1) ||
+        !isOpaque(img, x, y - 1)
+      ) {
+        continue;
+      }
+      const gx = pixelLuminance(img, x + 1, y) - pixelLuminance(img, x - 1, y);
+      const gy = pixelLuminance(img, x, y + 1) - pixelLuminance(img, x, y - 1);
+      if (gx * gx + gy * gy < MIN_FLOW_GRADIENT * MIN_FLOW_GRADIENT) continue;
+
+      const cell = row * FLOW_GRID + Math.min(FLOW_GRID - 1, Math.floor((x / img.width) * FLOW_GRID));
+      jxx[cell] += gx * gx;
+      jyy[cell] += gy * gy;
+      jxy[cell] += gx * gy;
+    }
+  }
+
+  const angle: number[] = [];
+  const strength: number[] = [];
+  for (let i = 0; i < cells; i++) {
+    const energy = jxx[i] + jyy[i];
+    if (energy <= 0) {
+      angle.push(flowDirection % 180);
+      strength.push(0);
+      continue;
+    }
+    const gradient = (0.5 * Math.atan2(2 * jxy[i], jxx[i] - jyy[i]) * 180) / Math.PI;
+    const coherence = Math.sqrt((jxx[i] - jyy[i]) ** 2 + 4 * jxy[i] ** 2) / energy;
+    angle.push((Math.round(gradient + 90) + 360) % 180);
+    strength.push(round2(coherence));
+  }
+
+  return { columns: FLOW_GRID, rows: FLOW_GRID, angle, strength };
 }
 
 /* ────────────────────────────────────────────────────────
    Pixel collection
    ──────────────────────────────────────────────────────── */
 
-function collectClusterPixels(
+/** Convert an isotropic point back to per-axis normalised 0-1. */
+function toImage(p: Point2D, frame: AspectFrame): Point2D {
+  return { x: p.x / frame.sx, y: p.y / frame.sy };
+}
+
+/** Isotropic positions of the pixels labelled `component`. */
+function collectComponentPixels(
   img: RawImageData,
-  assignments: ClusterAssignments,
-  clusterIdx: number
+  labels: Int32Array,
+  component: number,
+  frame: AspectFrame
 ): Point2D[] {
   const pixels: Point2D[] = [];
   for (let y = 0; y < img.height; y++) {
     for (let x = 0; x < img.width; x++) {
-      if (assignments[y * img.width + x] === clusterIdx) {
+      if (labels[y * img.width + x] === component) {
         pixels.push({
-          x: x / (img.width - 1),
-          y: y / (img.height - 1),
+          x: (x / (img.width - 1)) * frame.sx,
+          y: (y / (img.height - 1)) * frame.sy,
         });
       }
     }
@@ -172,7 +306,8 @@ interface ClusterGeometry {
 function analyzeGeometry(
   pixels: Point2D[],
   imgW: number,
-  imgH: number
+  imgH: number,
+  frame: AspectFrame
 ): ClusterGeometry {
   // ── Centroid ──
   let cx = 0,
@@ -232,9 +367,9 @@ function analyzeGeometry(
   // ── Convex hull ──
   const hull = convexHull(pixels);
 
-  // Hull area via shoelace
+  // Hull area via shoelace (isotropic units — the image spans sx × sy)
   const hullArea = polygonArea(hull);
-  const convexity = hullArea > 0 ? (area * imgW * imgH) / (hullArea * imgW * imgH) : 1;
+  const convexity = hullArea > 0 ? (area * frame.sx * frame.sy) / hullArea : 1;
 
   // ── Tip detection (most acute hull vertex) ──
   const { minAngle, tipPoint } = findMinHullAngle(hull);
@@ -561,11 +696,13 @@ function classifyShape(g: ClusterGeometry): ShapeType | null {
 function buildContour(
   type: ShapeType,
   g: ClusterGeometry,
-  color: ColorRegion
+  color: ColorRegion,
+  frame: AspectFrame
 ): ShapeContour {
+  const centroid = toImage(g.centroid, frame);
   const base: ShapeContour = {
     type,
-    position: g.centroid,
+    position: { x: round2(centroid.x), y: round2(centroid.y) },
     direction: g.majorAxisAngle,
     curvature: round2(1 - g.edgeStraightness),
     thickness: round2(g.avgThickness),
@@ -580,18 +717,19 @@ function buildContour(
       // Estimate frequency from cross-section oscillation
       // (rough: count sign changes in centreline deviation)
       base.frequency = estimateWaveFrequency(g);
-      base.startPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, -1);
-      base.endPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, 1);
+      base.startPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, -1, frame);
+      base.endPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, 1, frame);
       break;
     }
     case "wisp":
     case "ribbon": {
-      base.startPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, -1);
-      base.endPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, 1);
+      base.startPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, -1, frame);
+      base.endPoint = projectToEdge(g.centroid, g.majorAxis, g.eigenvalue1, 1, frame);
       break;
     }
     case "petal": {
-      if (g.tipPoint) base.tipPoint = g.tipPoint;
+      const tip = toImage(g.tipPoint ?? g.centroid, frame);
+      if (g.tipPoint) base.tipPoint = { x: round2(tip.x), y: round2(tip.y) };
       base.bodyWidth = round2(g.avgThickness / Math.max(0.01, Math.sqrt(g.eigenvalue1) * 4));
       // Start/end: base of the petal (opposite from tip)
       const tipDir = g.tipPoint
@@ -601,16 +739,23 @@ function buildContour(
           }
         : g.majorAxis;
       const tipLen = Math.sqrt(tipDir.x ** 2 + tipDir.y ** 2) || 1;
-      base.startPoint = {
-        x: round2(g.centroid.x - (tipDir.x / tipLen) * Math.sqrt(g.eigenvalue1) * 2),
-        y: round2(g.centroid.y - (tipDir.y / tipLen) * Math.sqrt(g.eigenvalue1) * 2),
-      };
-      base.endPoint = g.tipPoint ?? g.centroid;
+      const petalBase = toImage(
+        {
+          x: g.centroid.x - (tipDir.x / tipLen) * Math.sqrt(g.eigenvalue1) * 2,
+          y: g.centroid.y - (tipDir.y / tipLen) * Math.sqrt(g.eigenvalue1) * 2,
+        },
+        frame
+      );
+      base.startPoint = { x: round2(petalBase.x), y: round2(petalBase.y) };
+      base.endPoint = { x: round2(tip.x), y: round2(tip.y) };
       break;
     }
     case "angular-veil": {
       // Report simplified hull as vertices
-      base.vertices = simplifyHull(g.hull, 6);
+      base.vertices = simplifyHull(g.hull, 6).map((p) => {
+        const v = toImage(p, frame);
+        return { x: round2(v.x), y: round2(v.y) };
+      });
       break;
     }
     case "veil": {
@@ -686,18 +831,23 @@ function projectToEdge(
   centroid: Point2D,
   axis: Point2D,
   eigenvalue: number,
-  sign: number
+  sign: number,
+  frame: AspectFrame
 ): Point2D {
   const extent = Math.sqrt(eigenvalue) * 3 * sign;
+  const p = toImage(
+    { x: centroid.x + axis.x * extent, y: centroid.y + axis.y * extent },
+    frame
+  );
   return {
-    x: round2(Math.max(0, Math.min(1, centroid.x + axis.x * extent))),
-    y: round2(Math.max(0, Math.min(1, centroid.y + axis.y * extent))),
+    x: round2(Math.max(0, Math.min(1, p.x))),
+    y: round2(Math.max(0, Math.min(1, p.y))),
   };
 }
 
 function simplifyHull(hull: Point2D[], maxVertices: number): Point2D[] {
   if (hull.length <= maxVertices) {
-    return hull.map((p) => ({ x: round2(p.x), y: round2(p.y) }));
+    return hull;
   }
 
   // Keep vertices with the largest turn angles
@@ -727,9 +877,7 @@ function simplifyHull(hull: Point2D[], maxVertices: number): Point2D[] {
   angles.sort((a, b) => b.angle - a.angle);
   const kept = new Set(angles.slice(0, maxVertices).map((a) => a.idx));
 
-  return hull
-    .filter((_, i) => kept.has(i))
-    .map((p) => ({ x: round2(p.x), y: round2(p.y) }));
+  return hull.filter((_, i) => kept.has(i));
 }
 
 /* ────────────────────────────────────────────────────────
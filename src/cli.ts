@@ -5,6 +5,7 @@
  * Commands:
  *   gradient-bro analyze <image>   — Analyse an image and output a gradient spec
  *   gradient-bro generate <image>  — Analyse + generate CSS in one step
+ *     (pass "-" as <image> to read the image from stdin)
  *   gradient-bro setup-cursor      — Install Cursor skill & rule to ~/.cursor/
  */
 
@@ -13,7 +14,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { analyzeImage } from "./analyzer/index";
 import { generateCSS } from "./generator/index";
-import { FidelityLevel } from "./types";
+import { FidelityLevel, ColorSpace, CropRegion, CropValue } from "./types";
 
 const program = new Command();
 
@@ -32,7 +33,9 @@ program
 
 program
   .command("analyze <image>")
-  .description("Analyse an image and output its gradient specification as JSON.")
+  .description(
+    'Analyse an image and output its gradient specification as JSON. Use "-" to read the image from stdin.'
+  )
   .option(
     "-f, --fidelity <level>",
     'Fidelity level: "exact", "vibe", or "inspired"',
@@ -41,27 +44,39 @@ program
   .option("-o, --output <file>", "Write JSON to a file instead of stdout")
   .option(
     "--clusters <n>",
-    "Override the number of colour clusters",
+    'Override the number of colour clusters, or "auto" to pick per image',
     undefined
   )
   .option(
     "--size <n>",
-    "Analysis resolution (pixels, default 100)",
+    "Analysis resolution of the long edge (pixels, default 100)",
     "100"
   )
+  .option(
+    "--color-space <space>",
+    'Clustering colour space: "rgb", "oklab", or "lab"',
+    "rgb"
+  )
+  .option(
+    "--spatial-weight <w>",
+    "Weight of pixel position in colour clustering (0 = colour only)",
+    "0"
+  )
+  .option(
+    "--crop <x,y,w,h>",
+    "Analyse only this region, in pixels or percentages (e.g. 0,10%,50%,80%)"
+  )
   .action(async (image: string, opts) => {
     const fidelity = opts.fidelity as FidelityLevel;
-    const resolvedImage = path.resolve(image);
-
-    if (!fs.existsSync(resolvedImage)) {
-      console.error(`Error: File not found: ${resolvedImage}`);
-      process.exit(1);
-    }
+    const input = await resolveImageInput(image);
 
     try {
-      const spec = await analyzeImage(resolvedImage, fidelity, {
-        colorClusters: opts.clusters ? parseInt(opts.clusters) : undefined,
+      const spec = await analyzeImage(input, fidelity, {
+        colorClusters: parseClusters(opts.clusters),
         analysisSize: parseInt(opts.size),
+        colorSpace: parseColorSpace(opts.colorSpace),
+        spatialWeight: parseSpatialWeight(opts.spatialWeight),
+        crop: parseCrop(opts.crop),
       });
 
       const json = JSON.stringify(spec, null, 2);
@@ -82,7 +97,9 @@ program
 
 program
   .command("generate <image>")
-  .description("Analyse an image and generate CSS in one step.")
+  .description(
+    'Analyse an image and generate CSS in one step. Use "-" to read the image from stdin.'
+  )
   .option(
     "-f, --fidelity <level>",
     'Fidelity level: "exact", "vibe", or "inspired"',
@@ -95,19 +112,41 @@ program
   )
   .option("-r, --border-radius <val>", "Border radius, e.g. '16px'", "0")
   .option("-o, --output <file>", "Write CSS to a file instead of stdout")
-  .option("--size <n>", "Analysis resolution (pixels, default 100)", "100")
+  .option(
+    "--clusters <n>",
+    'Override the number of colour clusters, or "auto" to pick per image',
+    undefined
+  )
+  .option(
+    "--size <n>",
+    "Analysis resolution of the long edge (pixels, default 100)",
+    "100"
+  )
+  .option(
+    "--color-space <space>",
+    'Clustering colour space: "rgb", "oklab", or "lab"',
+    "rgb"
+  )
+  .option(
+    "--spatial-weight <w>",
+    "Weight of pixel position in colour clustering (0 = colour only)",
+    "0"
+  )
+  .option(
+    "--crop <x,y,w,h>",
+    "Analyse only this region, in pixels or percentages (e.g. 0,10%,50%,80%)"
+  )
   .action(async (image: string, opts) => {
     const fidelity = opts.fidelity as FidelityLevel;
-    const resolvedImage = path.resolve(image);
-
-    if (!fs.existsSync(resolvedImage)) {
-      console.error(`Error: File not found: ${resolvedImage}`);
-      process.exit(1);
-    }
+    const input = await resolveImageInput(image);
 
     try {
-      const spec = await analyzeImage(resolvedImage, fidelity, {
+      const spec = await analyzeImage(input, fidelity, {
+        colorClusters: parseClusters(opts.clusters),
         analysisSize: parseInt(opts.size),
+        colorSpace: parseColorSpace(opts.colorSpace),
+        spatialWeight: parseSpatialWeight(opts.spatialWeight),
+        crop: parseCrop(opts.crop),
       });
 
       const css = generateCSS(spec, {
@@ -168,6 +207,89 @@ program
     console.log("\nDone! Restart Cursor to pick up the new skill.");
   });
 
+/**
+ * Turn the <image> argument into an analyser input: stdin bytes for "-",
+ * otherwise a resolved file path (exiting if the file doesn't exist).
+ */
+async function resolveImageInput(image: string): Promise<string | Buffer> {
+  if (image === "-") {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  const resolvedImage = path.resolve(image);
+  if (!fs.existsSync(resolvedImage)) {
+    console.error(`Error: File not found: ${resolvedImage}`);
+    process.exit(1);
+  }
+  return resolvedImage;
+}
+
+/**
+ * Parse the --clusters flag: a whole number of at least 1, "auto", or
+ * unset.  Exits with an error on anything else.
+ */
+function parseClusters(value: string | undefined): number | "auto" | undefined {
+  if (!value) return undefined;
+  if (value === "auto") return "auto";
+
+  const clusters = /^\d+$/.test(value.trim()) ? parseInt(value) : NaN;
+  if (!(clusters >= 1)) {
+    console.error(
+      `Error: Invalid cluster count "${value}". Use a whole number of at least 1, or "auto"`
+    );
+    process.exit(1);
+  }
+  return clusters;
+}
+
+/** Validate the --color-space flag, exiting with an error if unknown. */
+function parseColorSpace(value: string): ColorSpace {
+  const spaces: ColorSpace[] = ["rgb", "oklab", "lab"];
+  if (!spaces.includes(value as ColorSpace)) {
+    console.error(
+      `Error: Unknown colour space "${value}". Use one of: ${spaces.join(", ")}`
+    );
+    process.exit(1);
+  }
+  return value as ColorSpace;
+}
+
+/** Validate the --spatial-weight flag, exiting with an error unless it is a number ≥ 0. */
+function parseSpatialWeight(value: string): number {
+  const weight = Number(value);
+  if (value.trim() === "" || !Number.isFinite(weight) || weight < 0) {
+    console.error(
+      `Error: Invalid spatial weight "${value}". Use a number of 0 or more, e.g. 0.5`
+    );
+    process.exit(1);
+  }
+  return weight;
+}
+
+/**
+ * Parse the --crop flag ("x,y,w,h"), each value in pixels or with a "%"
+ * suffix.  Exits with an error on malformed input.
+ */
+function parseCrop(value: string | undefined): CropRegion | undefined {
+  if (!value) return undefined;
+
+  const parts = value.split(",").map((p) => p.trim());
+  const valid = /^\d+(\.\d+)?%?$/;
+  if (parts.length !== 4 || !parts.every((p) => valid.test(p))) {
+    console.error(
+      `Error: Invalid crop "${value}". Use x,y,w,h in pixels or percentages, e.g. 0,0,50%,50%`
+    );
+    process.exit(1);
+  }
+
+  const [x, y, width, height] = parts.map((p): CropValue =>
+    p.endsWith("%") ? (p as `${number}%`) : parseFloat(p)
+  );
+  return { x, y, width, height };
+}
+
 /** Recursively copy a directory. */
 function copyDirSync(src: string, dest: string) {
   fs.mkdirSync(dest, { recursive: true });
@@ -9,13 +9,21 @@
  *    One global blur value is applied to the ::before element.
  *
  *  Strategy B — Multiple blur tiers split by sharpness.
- *    Used when sharpness variance is high (> 0.4).
+ *    Used when sharpness variance is high (> 0.4), or when the regions'
+ *    measured blur radii differ by more than TIER_RATIO.
  *    Blobs are grouped into 2-3 tiers, each rendered on a separate
  *    pseudo-element layer with its own blur amount.
  *    Sharp tier: low blur (5-20px).  Diffuse tier: heavy blur (40-80px).
+ *    With measured radii the tiers split at the largest gap between them
+ *    and the sharp tier's blur follows their measured ratio.
+ *
+ * In both, elongated regions are drawn as ellipses rotated to their
+ * principal axis rather than circles.
  */
 
-import { BlurInfo, ColorRegion, FidelityLevel } from "../types";
+import { BlurInfo, ColorRegion, FidelityLevel, FlowField } from "../types";
+import { blobShape, farthestCorner } from "./flow-field";
+import { BlobStop, blobExtent, elongatedAxes, orientedBlob } from "./ellipse-blob";
 
 // ─── Public types ────────────────────────────────────────────────────
 
@@ -34,6 +42,9 @@ export interface BlurLayerResult {
   needsInnerWrapper: boolean;
 }
 
+/** Measured blur spread (largest / smallest radius) that calls for tiers. */
+const TIER_RATIO = 2;
+
 // ─── Helpers ─────────────────────────────────────────────────────────
 
 /**
@@ -95,19 +106,128 @@ function regionBlurPx(
 }
 
 /**
- * Build a radial-gradient CSS value for a single colour blob.
- * `radiusMultiplier` adjusts the transparent-stop based on sharpness.
+ * Split regions into sharp and diffuse tiers.  Uses the measured blur
+ * radii when at least two regions have one: the tiers divide at the
+ * largest ratio between consecutive radii, and unmeasured regions (no
+ * edges to speak of) join the diffuse tier.  Otherwise splits on
+ * edgeSharpness at 0.5.
+ */
+function splitTiers(colors: ColorRegion[]): {
+  sharp: ColorRegion[];
+  diffuse: ColorRegion[];
+  measured: boolean;
+} {
+  const radii = colors
+    .map((c) => c.blurRadius)
+    .filter((r): r is number => r !== undefined)
+    .sort((a, b) => a - b);
+
+  if (radii.length < 2) {
+    return {
+      sharp: colors.filter((c) => c.edgeSharpness >= 0.5),
+      diffuse: colors.filter((c) => c.edgeSharpness < 0.5),
+      measured: false,
+    };
+  }
+
+  let split = radii[radii.length - 1];
+  let bestGap = 0;
+  for (let i = 1; i < radii.length; i++) {
+    const gap = radii[i] / Math.max(radii[i - 1], 1e-4);
+    if (gap > bestGap) {
+      bestGap = gap;
+      split = radii[i];
+    }
+  }
+
+  return {
+    sharp: colors.filter((c) => c.blurRadius !== undefined && c.blurRadius < split),
+    diffuse: colors.filter((c) => c.blurRadius === undefined || c.blurRadius >= split),
+    measured: true,
+  };
+}
+
+/** Spread of the measured blur radii, or 0 when fewer than two are known. */
+function measuredBlurRatio(colors: ColorRegion[]): number {
+  const radii = colors
+    .map((c) => c.blurRadius)
+    .filter((r): r is number => r !== undefined);
+  if (radii.length < 2) return 0;
+  return Math.max(...radii) / Math.max(Math.min(...radii), 1e-4);
+}
+
+/** Mean measured blur radius of a tier (0 when none are measured). */
+function meanBlurRadius(colors: ColorRegion[]): number {
+  const radii = colors
+    .map((c) => c.blurRadius)
+    .filter((r): r is number => r !== undefined);
+  return radii.length ? radii.reduce((a, b) => a + b, 0) / radii.length : 0;
+}
+
+/**
+ * Gradient stops for a colour blob of `radius` (a fraction of the long
+ * edge), as offsets 0-1 of that radius.
  *
- * Uses a 3-stop gradient for natural falloff:
- *   0%       → full colour at peak opacity
- *   ~55% R   → same colour at reduced opacity (soft knee)
- *   R        → same colour at alpha 0 (not `transparent`, which
+ * With a measured edge profile the blob holds its peak opacity, then
+ * follows the profile over the outer part of its radius — as wide as the
+ * measured transition (±1 width).  Otherwise uses a 3-stop gradient for
+ * natural falloff:
+ *   0        → full colour at peak opacity
+ *   ~0.55    → same colour at reduced opacity (soft knee)
+ *   1        → same colour at alpha 0 (not `transparent`, which
  *              interpolates toward black and causes dark halos)
  */
-function blobGradient(c: ColorRegion, radiusMultiplier: number = 1): string {
+function blobStops(c: ColorRegion, opacity: number, radius: number): BlobStop[] {
+  if (c.edgeProfile && c.edgeProfile.length >= 2 && c.transitionWidth !== undefined) {
+    const profile = c.edgeProfile;
+    const span = Math.min(1, Math.max(0.1, (c.transitionWidth * 2) / radius));
+    const start = 1 - span;
+    const stops: BlobStop[] = [[opacity, 0]];
+    profile.forEach((p, k) => {
+      // The last stop always fades fully to avoid a hard rim
+      const alpha = k === profile.length - 1 ? 0 : opacity * p;
+      stops.push([alpha, start + (span * k) / (profile.length - 1)]);
+    });
+    return stops;
+  }
+
+  // Mid-stop at 55% of radius with 35% of peak opacity — creates a soft
+  // rolloff curve instead of a linear ramp that reads as a hard edge
+  return [
+    [opacity, 0],
+    [opacity * 0.35, 0.55],
+    [0, 1],
+  ];
+}
+
+/**
+ * Build the CSS background layer for a single colour blob.
+ * `radiusMultiplier` adjusts the transparent-stop based on sharpness.
+ *
+ * Elongated regions with measured principal axes become a rotated
+ * ellipse; the rest, near-round or unmeasured, are a radial-gradient
+ * circle, stretched along the local flow when there is a flow field.
+ * The circle's stop percentages are relative to the farthest-corner
+ * distance (CSS's default size), so the radius is converted to
+ * long-edge units before the measured edge profile is fitted to it.
+ */
+function blobGradient(
+  c: ColorRegion,
+  radiusMultiplier: number = 1,
+  flow?: FlowField,
+  dimensions?: { width: number; height: number }
+): string {
+  const opacity = Math.round(Math.min(0.9, 0.4 + c.weight) * 100) / 100;
+
+  const axes = elongatedAxes(c);
+  if (axes) {
+    const scale = blobExtent(c) * radiusMultiplier;
+    const stops = blobStops(c, opacity, axes.minor * scale);
+    return orientedBlob(c, axes, stops, scale, dimensions);
+  }
+
   const xPct = Math.round(c.position.x * 100);
   const yPct = Math.round(c.position.y * 100);
-  const opacity = Math.round(Math.min(0.9, 0.4 + c.weight) * 100) / 100;
   const baseRadius = 30 + c.spread * 40;
 
   // Sharp regions get tighter stops; diffuse regions get wider stops
@@ -115,13 +235,15 @@ function blobGradient(c: ColorRegion, radiusMultiplier: number = 1): string {
   const sharpnessFactor = 1.3 - c.edgeSharpness * 0.7;
   const radius = Math.round(baseRadius * sharpnessFactor * radiusMultiplier);
 
-  // Mid-stop at 55% of radius with 35% of peak opacity — creates a soft
-  // rolloff curve instead of a linear ramp that reads as a hard edge
-  const midRadius = Math.round(radius * 0.55);
-  const midOpacity = Math.round(opacity * 0.35 * 100) / 100;
-
+  const shape = blobShape(c.position, flow, dimensions);
   const { rgb } = c;
-  return `radial-gradient(circle at ${xPct}% ${yPct}%, rgba(${rgb[0]},${rgb[1]},${rgb[2]},${opacity}) 0%, rgba(${rgb[0]},${rgb[1]},${rgb[2]},${midOpacity}) ${midRadius}%, rgba(${rgb[0]},${rgb[1]},${rgb[2]},0) ${radius}%)`;
+  const corner = farthestCorner(c.position, dimensions);
+  const stops = blobStops(c, opacity, (radius / 100) * corner).map(
+    ([alpha, offset]) =>
+      `rgba(${rgb[0]},${rgb[1]},${rgb[2]},${Math.round(alpha * 100) / 100}) ${Math.round(offset * radius)}%`
+  );
+
+  return `radial-gradient(${shape} at ${xPct}% ${yPct}%, ${stops.join(", ")})`;
 }
 
 // ─── Strategy A: single layer ────────────────────────────────────────
@@ -129,12 +251,14 @@ function blobGradient(c: ColorRegion, radiusMultiplier: number = 1): string {
 function buildSingleLayer(
   colors: ColorRegion[],
   blur: BlurInfo,
-  fidelity: FidelityLevel
+  fidelity: FidelityLevel,
+  flow?: FlowField,
+  dimensions?: { width: number; height: number }
 ): BlurLayerResult {
   const globalRadius = blurRadiusPx(blur, fidelity);
   const overflow = blurOverflowPct(globalRadius);
 
-  const gradients = colors.map((c) => blobGradient(c));
+  const gradients = colors.map((c) => blobGradient(c, 1, flow, dimensions));
 
   return {
     layers: [
@@ -159,21 +283,22 @@ function buildSingleLayer(
 function buildMultiTierLayers(
   colors: ColorRegion[],
   blur: BlurInfo,
-  fidelity: FidelityLevel
+  fidelity: FidelityLevel,
+  flow?: FlowField,
+  dimensions?: { width: number; height: number }
 ): BlurLayerResult {
   const globalRadius = blurRadiusPx(blur, fidelity);
+  const diffuseBlur = Math.round(globalRadius * 1.1); // slightly heavier
 
-  // Split regions into sharp (≥ 0.5) and diffuse (< 0.5) tiers
-  const sharpRegions = colors.filter((c) => c.edgeSharpness >= 0.5);
-  const diffuseRegions = colors.filter((c) => c.edgeSharpness < 0.5);
+  const { sharp: sharpRegions, diffuse: diffuseRegions, measured } =
+    splitTiers(colors);
 
   const layers: BlurLayer[] = [];
 
   // Diffuse tier — heavy blur, goes on the outermost ::before
   if (diffuseRegions.length > 0) {
-    const diffuseBlur = Math.round(globalRadius * 1.1); // slightly heavier
     const overflow = blurOverflowPct(diffuseBlur);
-    const gradients = diffuseRegions.map((c) => blobGradient(c, 1.2));
+    const gradients = diffuseRegions.map((c) => blobGradient(c, 1.2, flow, dimensions));
 
     layers.push({
       tier: "diffuse",
@@ -190,13 +315,20 @@ function buildMultiTierLayers(
 
   // Sharp tier — low blur, goes on an inner element's ::before
   if (sharpRegions.length > 0) {
-    // Average region blur for the sharp tier
-    const avgSharpBlur = Math.round(
-      sharpRegions.reduce((sum, c) => sum + regionBlurPx(c, globalRadius), 0) /
-        sharpRegions.length
-    );
+    // Measured: scale the diffuse blur by the tiers' radius ratio.
+    // Otherwise average the sharpness-derived region blur.
+    const diffuseRadius = meanBlurRadius(diffuseRegions);
+    const avgSharpBlur =
+      measured && diffuseRadius > 0
+        ? Math.round(
+            Math.max(5, (diffuseBlur * meanBlurRadius(sharpRegions)) / diffuseRadius)
+          )
+        : Math.round(
+            sharpRegions.reduce((sum, c) => sum + regionBlurPx(c, globalRadius), 0) /
+              sharpRegions.length
+          );
     const overflow = blurOverflowPct(avgSharpBlur);
-    const gradients = sharpRegions.map((c) => blobGradient(c, 0.8));
+    const gradients = sharpRegions.map((c) => blobGradient(c, 0.8, flow, dimensions));
 
     layers.push({
       tier: "sharp",
@@ -222,12 +354,17 @@ function buildMultiTierLayers(
 /**
  * Build blur layer(s) for colour blobs.
  *
- * Automatically selects Strategy A or B based on edge sharpness variance.
+ * Automatically selects Strategy A or B based on the measured blur
+ * radii, or on edge sharpness variance for specs without them.
+ * Pass the shape analysis' flow field to stretch blobs along it, and the
+ * reference's dimensions to keep rotated elliptical blobs in proportion.
  */
 export function buildBlurLayers(
   colors: ColorRegion[],
   blur: BlurInfo,
-  fidelity: FidelityLevel
+  fidelity: FidelityLevel,
+  flow?: FlowField,
+  dimensions?: { width: number; height: number }
 ): BlurLayerResult {
   if (colors.length === 0) {
     return { layers: [], needsInnerWrapper: false };
@@ -235,13 +372,15 @@ export function buildBlurLayers(
 
   const sharpnesses = colors.map((c) => c.edgeSharpness);
   const range = Math.max(...sharpnesses) - Math.min(...sharpnesses);
+  const spread = measuredBlurRatio(colors);
 
-  // Strategy B when there's significant sharpness variance
-  if (range > 0.4 && colors.length >= 3) {
-    return buildMultiTierLayers(colors, blur, fidelity);
+  // Strategy B when there's significant blur or sharpness variance
+  const tiered = spread > 0 ? spread >= TIER_RATIO : range > 0.4;
+  if (tiered && colors.length >= 3) {
+    return buildMultiTierLayers(colors, blur, fidelity, flow, dimensions);
   }
 
-  return buildSingleLayer(colors, blur, fidelity);
+  return buildSingleLayer(colors, blur, fidelity, flow, dimensions);
 }
 
 /**
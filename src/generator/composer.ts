@@ -5,17 +5,25 @@
  *  - "simple"  — original linear base + single blurred blob layer
  *  - "mesh"    — mesh-style base + multi-tier blur layers
  *  - "hybrid"  — dominant-color base + mesh accent layers
+ *  - "organic" — base gradient + SVG shape layer with 5-tier blur
  *
- * When multi-tier blur is in effect, the composer emits CSS for an
- * inner wrapper div (`${sel}-inner`) to provide extra pseudo-elements.
+ * When multi-tier blur or glow layers are in effect, the composer emits
+ * CSS for an inner wrapper div (`${sel}-inner`) to provide extra
+ * pseudo-elements.
  */
 
 import { GradientSpec, GeneratorOptions } from "../types";
-import { buildBaseGradient, buildColorBlobs } from "./gradient-layers";
+import {
+  buildBaseGradient,
+  buildColorBlobs,
+  buildVignetteGradient,
+} from "./gradient-layers";
 import { buildNoiseLayerCSS } from "./noise-layer";
+import { buildGlowLayerCSS } from "./glow-layer";
 import { buildBlurLayerCSS } from "./blur-layer";
 import { buildBlurLayers, BlurLayerResult } from "./blur-layer";
 import { buildMeshLayers, buildHybridLayers, MeshOutput } from "./mesh-layer";
+import { buildShapeLayer } from "./svg-layer";
 
 /**
  * Turn a Record<string, string> into indented CSS declarations.
@@ -26,6 +34,35 @@ function declarations(props: Record<string, string>, indent = "  "): string {
     .join("\n");
 }
 
+/**
+ * Whether the container should stay transparent (no opaque base layer).
+ * Follows the reference's alpha channel unless the caller overrides it.
+ */
+function wantsTransparentBackground(
+  spec: GradientSpec,
+  options: GeneratorOptions
+): boolean {
+  return options.transparentBackground ?? spec.transparency?.detected ?? false;
+}
+
+/**
+ * Container background for the simple and organic strategies: the
+ * vignette over the base gradient, or "transparent" for transparent
+ * references and when there is no colour to build a base from.
+ */
+function containerBackground(
+  spec: GradientSpec,
+  options: GeneratorOptions
+): string {
+  if (wantsTransparentBackground(spec, options)) return "transparent";
+
+  const layers = [
+    buildVignetteGradient(spec.vignette),
+    buildBaseGradient(spec.colors, options.fidelity, spec.baseProfile),
+  ].filter((l): l is string => l !== null);
+  return layers.length > 0 ? layers.join(",\n    ") : "transparent";
+}
+
 /**
  * Compose the full CSS for a gradient container.
  */
@@ -37,7 +74,7 @@ export function composeCSS(
 
   switch (strategy) {
     case "organic":
-      return composeOrganicFallbackCSS(spec, options);
+      return composeOrganicCSS(spec, options);
     case "mesh":
     case "hybrid":
       return composeMeshCSS(spec, options);
@@ -47,44 +84,82 @@ export function composeCSS(
   }
 }
 
-// ─── Organic strategy (fallback — full organic requires the Cursor skill) ──
+// ─── Organic strategy ───────────────────────────────────────────────
 
 /**
- * When the analyser classifies an image as organic, the full result requires
- * inline SVG with per-shape blur filters — something only the Cursor skill
- * workflow can produce (the agent writes the SVG paths from visual analysis).
+ * Organic output: the traced shape contours drawn through the 5-tier
+ * blur filters as an SVG background layer over the base gradient, focal
+ * glows, and the noise overlay.  Everything is in the CSS, so the
+ * container needs no extra markup.
+ *
+ * Layer stack:
+ *   sel          — SVG shapes over the vignette and base gradient
+ *   sel::before  — focal glows (z-index 1)
+ *   sel::after   — noise overlay (z-index 2)
+ *   content      — z-index 3
  *
- * This fallback outputs hybrid CSS for the base gradient + noise layers and
- * a header comment explaining how to get the full organic result.
+ * Specs without shape contours fall back to hybrid CSS.
  */
-function composeOrganicFallbackCSS(
+function composeOrganicCSS(
   spec: GradientSpec,
   options: GeneratorOptions
 ): string {
-  const shapeTypes = spec.shapes?.contours.map((c) => c.type) ?? [];
-  const uniqueTypes = [...new Set(shapeTypes)];
+  const { selector, fidelity, borderRadius } = options;
+  const sel = selector.startsWith(".") ? selector : `.${selector}`;
+  const br = borderRadius ?? "0";
 
-  const lines: string[] = [];
-  lines.push(`/*`);
-  lines.push(` * GradientBro — organic strategy detected`);
-  lines.push(` *`);
-  if (uniqueTypes.length > 0) {
-    lines.push(` * Detected shapes: ${uniqueTypes.join(", ")}`);
+  const shapes = buildShapeLayer(
+    spec.shapes?.contours ?? [],
+    fidelity,
+    spec.shapes?.flowField
+  );
+  if (!shapes) {
+    return composeMeshCSS({ ...spec, strategy: "hybrid" }, options);
   }
-  lines.push(` * This image has complex organic shapes that benefit from inline SVG`);
-  lines.push(` * with per-shape blur filters for full depth and fidelity.`);
-  lines.push(` *`);
-  lines.push(` * The CSS below provides base gradient + noise layers as a starting point.`);
-  lines.push(` * For the full organic result with SVG shape layers, use:`);
-  lines.push(` *   gradient-bro analyze <image> --fidelity <level>`);
-  lines.push(` * and follow the GradientBro Cursor skill workflow.`);
-  lines.push(` *   (Run: gradient-bro setup-cursor)`);
-  lines.push(` */`);
+
+  // Shapes above the base gradient (omitted for transparent references)
+  const base = containerBackground(spec, options);
+  const backgroundValue = base === "transparent" ? shapes : `${shapes},\n    ${base}`;
+
+  const glowProps = buildGlowLayerCSS(spec.glows, spec.dimensions, fidelity);
+  const noiseProps = buildNoiseLayerCSS(spec.noise, fidelity, spec.mood, spec.baseProfile);
+
+  const lines: string[] = [];
+
+  // Container
+  lines.push(`${sel} {`);
+  lines.push(`  position: relative;`);
+  lines.push(`  overflow: hidden;`);
+  if (br !== "0") lines.push(`  border-radius: ${br};`);
+  lines.push(`  background: ${backgroundValue};`);
+  lines.push(`}`);
   lines.push(``);
 
-  // Generate hybrid CSS as a usable base
-  const hybridSpec: GradientSpec = { ...spec, strategy: "hybrid" };
-  lines.push(composeMeshCSS(hybridSpec, options));
+  // ::before — focal glows
+  if (glowProps) {
+    lines.push(`${sel}::before {`);
+    lines.push(declarations(glowProps));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 1;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
+
+  // ::after — noise
+  if (noiseProps) {
+    lines.push(`${sel}::after {`);
+    lines.push(declarations(noiseProps));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 2;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
+
+  // Content z-index
+  lines.push(`${sel} > * {`);
+  lines.push(`  position: relative;`);
+  lines.push(`  z-index: 3;`);
+  lines.push(`}`);
 
   return lines.join("\n");
 }
@@ -99,25 +174,24 @@ function composeSimpleCSS(
   const sel = selector.startsWith(".") ? selector : `.${selector}`;
   const br = borderRadius ?? "0";
 
-  // Layer 1: base gradient
-  const baseGradient = buildBaseGradient(spec.colors);
-  let backgroundValue: string;
-  if (spec.vignette.detected && spec.vignette.strength > 0.1) {
-    const vigOpacity = Math.round(spec.vignette.strength * 0.6 * 100) / 100;
-    backgroundValue = [
-      `radial-gradient(ellipse at center, transparent 40%, rgba(0,0,0,${vigOpacity}) 100%)`,
-      baseGradient,
-    ].join(",\n    ");
-  } else {
-    backgroundValue = baseGradient;
-  }
+  // Layer 1: base gradient (omitted for transparent references)
+  const backgroundValue = containerBackground(spec, options);
 
   // Layer 2: blurred colour blobs
-  const blobs = buildColorBlobs(spec.colors, fidelity);
+  const blobs = buildColorBlobs(
+    spec.colors,
+    fidelity,
+    spec.adjacency,
+    spec.shapes?.flowField,
+    spec.dimensions
+  );
   const blurProps = buildBlurLayerCSS(blobs, spec.blur, fidelity);
 
-  // Layer 3: noise overlay (now mood-aware)
-  const noiseProps = buildNoiseLayerCSS(spec.noise, fidelity, spec.mood);
+  // Layer 3: focal glows
+  const glowProps = buildGlowLayerCSS(spec.glows, spec.dimensions, fidelity);
+
+  // Layer 4: noise overlay (now mood-aware)
+  const noiseProps = buildNoiseLayerCSS(spec.noise, fidelity, spec.mood, spec.baseProfile);
 
   const lines: string[] = [];
 
@@ -131,20 +205,30 @@ function composeSimpleCSS(
   lines.push(``);
 
   // ::before — blurred blobs
-  lines.push(`${sel}::before {`);
-  lines.push(declarations(blurProps));
-  if (br !== "0") lines.push(`  border-radius: ${br};`);
-  lines.push(`  z-index: 1;`);
-  lines.push(`}`);
-  lines.push(``);
+  if (blobs.length > 0) {
+    lines.push(`${sel}::before {`);
+    lines.push(declarations(blurProps));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 1;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
+
+  // Glows need a third layer: move glows + noise onto the inner wrapper
+  if (glowProps) {
+    pushInnerLayers(lines, sel, br, glowProps, noiseProps);
+    return lines.join("\n");
+  }
 
   // ::after — noise
-  lines.push(`${sel}::after {`);
-  lines.push(declarations(noiseProps));
-  if (br !== "0") lines.push(`  border-radius: ${br};`);
-  lines.push(`  z-index: 2;`);
-  lines.push(`}`);
-  lines.push(``);
+  if (noiseProps) {
+    lines.push(`${sel}::after {`);
+    lines.push(declarations(noiseProps));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 2;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
 
   // Content z-index
   lines.push(`${sel} > * {`);
@@ -166,19 +250,23 @@ function composeMeshCSS(
   const br = borderRadius ?? "0";
 
   // Get mesh output based on strategy
+  const transparent = wantsTransparentBackground(spec, options);
   const meshOutput: MeshOutput =
     spec.strategy === "hybrid"
-      ? buildHybridLayers(spec, fidelity)
-      : buildMeshLayers(spec, fidelity);
+      ? buildHybridLayers(spec, fidelity, transparent)
+      : buildMeshLayers(spec, fidelity, transparent);
 
   const { containerBackground, blurResult } = meshOutput;
 
+  // Focal glows, above every blur tier
+  const glowProps = buildGlowLayerCSS(spec.glows, spec.dimensions, fidelity);
+
   // Noise overlay (mood-aware)
-  const noiseProps = buildNoiseLayerCSS(spec.noise, fidelity, spec.mood);
+  const noiseProps = buildNoiseLayerCSS(spec.noise, fidelity, spec.mood, spec.baseProfile);
 
   const lines: string[] = [];
 
-  if (blurResult.needsInnerWrapper) {
+  if (blurResult.needsInnerWrapper || glowProps) {
     // ── Multi-layer: uses inner wrapper for extra pseudo-elements ────
     //
     // DOM structure:
@@ -194,8 +282,9 @@ function composeMeshCSS(
     //   sel-inner::before — sharp blur tier (z-index 2)
     //   sel-inner::after  — noise overlay (z-index 3)
     //   content        — z-index 4
-
-    const innerSel = `${sel}-inner`;
+    //
+    // With glows, the sharp tier moves to sel::after (z-index 1, painted
+    // after the diffuse tier) and sel-inner::before holds the glows.
 
     // Container
     lines.push(`${sel} {`);
@@ -220,38 +309,17 @@ function composeMeshCSS(
       lines.push(``);
     }
 
-    // Inner wrapper base
-    lines.push(`${innerSel} {`);
-    lines.push(`  position: relative;`);
-    lines.push(`  z-index: 2;`);
-    lines.push(`  width: 100%;`);
-    lines.push(`  height: 100%;`);
-    lines.push(`}`);
-    lines.push(``);
-
-    // inner::before — sharp tier
-    if (sharpLayer) {
-      lines.push(`${innerSel}::before {`);
+    // sel::after — sharp tier, when glows take the inner ::before
+    if (sharpLayer && glowProps) {
+      lines.push(`${sel}::after {`);
       lines.push(declarations(sharpLayer.css));
       if (br !== "0") lines.push(`  border-radius: ${br};`);
-      lines.push(`  z-index: 2;`);
+      lines.push(`  z-index: 1;`);
       lines.push(`}`);
       lines.push(``);
     }
 
-    // inner::after — noise
-    lines.push(`${innerSel}::after {`);
-    lines.push(declarations(noiseProps));
-    if (br !== "0") lines.push(`  border-radius: ${br};`);
-    lines.push(`  z-index: 3;`);
-    lines.push(`}`);
-    lines.push(``);
-
-    // Content z-index
-    lines.push(`${innerSel} > * {`);
-    lines.push(`  position: relative;`);
-    lines.push(`  z-index: 4;`);
-    lines.push(`}`);
+    pushInnerLayers(lines, sel, br, glowProps ?? sharpLayer?.css ?? null, noiseProps);
   } else {
     // ── Single-layer: same structure as simple but with mesh base ────
 
@@ -277,12 +345,14 @@ function composeMeshCSS(
     }
 
     // ::after — noise
-    lines.push(`${sel}::after {`);
-    lines.push(declarations(noiseProps));
-    if (br !== "0") lines.push(`  border-radius: ${br};`);
-    lines.push(`  z-index: 2;`);
-    lines.push(`}`);
-    lines.push(``);
+    if (noiseProps) {
+      lines.push(`${sel}::after {`);
+      lines.push(declarations(noiseProps));
+      if (br !== "0") lines.push(`  border-radius: ${br};`);
+      lines.push(`  z-index: 2;`);
+      lines.push(`}`);
+      lines.push(``);
+    }
 
     // Content z-index
     lines.push(`${sel} > * {`);
@@ -293,3 +363,54 @@ function composeMeshCSS(
 
   return lines.join("\n");
 }
+
+// ─── Inner wrapper ──────────────────────────────────────────────────
+
+/**
+ * Emit the `${sel}-inner` wrapper: `topLayer` (sharp blur tier or glows)
+ * on its ::before, noise (if any) on its ::after, and content above both.
+ */
+function pushInnerLayers(
+  lines: string[],
+  sel: string,
+  br: string,
+  topLayer: Record<string, string> | null,
+  noiseProps: Record<string, string> | null
+): void {
+  const innerSel = `${sel}-inner`;
+
+  // Inner wrapper base
+  lines.push(`${innerSel} {`);
+  lines.push(`  position: relative;`);
+  lines.push(`  z-index: 2;`);
+  lines.push(`  width: 100%;`);
+  lines.push(`  height: 100%;`);
+  lines.push(`}`);
+  lines.push(``);
+
+  // inner::before — sharp tier or glows
+  if (topLayer) {
+    lines.push(`${innerSel}::before {`);
+    lines.push(declarations(topLayer));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 2;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
+
+  // inner::after — noise
+  if (noiseProps) {
+    lines.push(`${innerSel}::after {`);
+    lines.push(declarations(noiseProps));
+    if (br !== "0") lines.push(`  border-radius: ${br};`);
+    lines.push(`  z-index: 3;`);
+    lines.push(`}`);
+    lines.push(``);
+  }
+
+  // Content z-index
+  lines.push(`${innerSel} > * {`);
+  lines.push(`  position: relative;`);
+  lines.push(`  z-index: 4;`);
+  lines.push(`}`);
+}
@@ -0,0 +1,90 @@
+/**
+ * Render elongated colour regions as rotated elliptical blobs.
+ *
+ * CSS radial gradients can only stretch along the x and y axes, so a
+ * diagonal streak would become a round dot.  Regions with measured
+ * principal axes are drawn instead as an SVG <ellipse>, rotated to the
+ * region's axis and filled with a radial gradient, inlined as a
+ * data-URI background layer.  It sits in the same background list as
+ * the other blobs, so it shares their pseudo-element and blur.
+ */
+
+import { ColorRegion } from "../types";
+
+/** Long-to-short axis ratio above which a region renders as an ellipse. */
+const MIN_ELONGATION = 1.3;
+
+/** Shortest semi-axis drawn, as a fraction of the long edge, so hairline
+ *  streaks still show through the blur. */
+const MIN_SEMI_AXIS = 0.02;
+
+/** A gradient stop: opacity 0-1 at an offset 0-1 of the blob's radius. */
+export type BlobStop = [opacity: number, offset: number];
+
+/**
+ * How far a blob reaches past its region's measured extent: a crisp
+ * region ends at its edge, a fully diffuse one reaches 1.5× further.
+ */
+export function blobExtent(c: ColorRegion): number {
+  return 1 + (1 - c.edgeSharpness) * 0.5;
+}
+
+/** A region's principal axes: orientation in degrees and 2σ semi-axes. */
+export interface BlobAxes {
+  angle: number;
+  major: number;
+  minor: number;
+}
+
+/**
+ * The region's principal axes when it has them and is elongated enough
+ * to need an ellipse, else null; round regions keep their
+ * radial-gradient circle.
+ */
+export function elongatedAxes(c: ColorRegion): BlobAxes | null {
+  const { axisAngle, majorAxis, minorAxis } = c;
+  if (axisAngle === undefined || !majorAxis || !minorAxis) return null;
+  if (majorAxis / minorAxis < MIN_ELONGATION) return null;
+  return { angle: axisAngle, major: majorAxis, minor: minorAxis };
+}
+
+/**
+ * Background layer for an elongated region: the ellipse of its `axes`
+ * (from elongatedAxes) scaled by `scale` and rotated to the axis, with
+ * `stops` from its centre to its rim.  `dimensions` (the reference's
+ * size) keep the ellipse's proportions on a container of the same
+ * aspect.
+ */
+export function orientedBlob(
+  c: ColorRegion,
+  axes: BlobAxes,
+  stops: BlobStop[],
+  scale: number,
+  dimensions?: { width: number; height: number }
+): string {
+  // Isotropic viewBox: the long edge spans 100 units
+  const longEdge = dimensions ? Math.max(dimensions.width, dimensions.height) : 1;
+  const vw = round1(dimensions ? (dimensions.width / longEdge) * 100 : 100);
+  const vh = round1(dimensions ? (dimensions.height / longEdge) * 100 : 100);
+
+  const cx = round1(c.position.x * vw);
+  const cy = round1(c.position.y * vh);
+  const rx = round1(Math.max(MIN_SEMI_AXIS, axes.major) * scale * 100);
+  const ry = round1(Math.max(MIN_SEMI_AXIS, axes.minor) * scale * 100);
+  const [r, g, b] = c.rgb;
+
+  const stopTags = stops
+    .map(
+      ([opacity, offset]) =>
+        `<stop offset='${Math.round(offset * 100) / 100}' stop-color='rgb(${r},${g},${b})' stop-opacity='${Math.round(opacity * 100) / 100}'/>`
+    )
+    .join("");
+
+  const svg = `<svg viewBox='0 0 ${vw} ${vh}' preserveAspectRatio='none' xmlns='http://www.w3.org/2000/svg'><radialGradient id='g'>${stopTags}</radialGradient><ellipse cx='${cx}' cy='${cy}' rx='${rx}' ry='${ry}' transform='rotate(${axes.angle} ${cx} ${cy})' fill='url(#g)'/></svg>`;
+
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}") center / 100% 100% no-repeat`;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
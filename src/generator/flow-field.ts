@@ -0,0 +1,117 @@
+/**
+ * Sample the analysed flow field and shape blobs along it.
+ *
+ * Flow orientations are axial (0° and 180° are the same flow), so cells
+ * are blended as doubled-angle vectors weighted by strength: opposing
+ * neighbours cancel out to weak flow instead of averaging to a
+ * perpendicular one.
+ */
+
+import { FlowField, Point2D } from "../types";
+
+/** Long-to-short axis ratio of a blob in fully coherent flow. */
+const MAX_FLOW_STRETCH = 2.5;
+
+/** Flow strength below which blobs stay circular. */
+const MIN_FLOW_STRENGTH = 0.2;
+
+/** Local flow at a normalised 0-1 position. */
+export interface LocalFlow {
+  /** Orientation in degrees, 0-180 (0 = right, 90 = down) */
+  angle: number;
+  /** 0-1 */
+  strength: number;
+}
+
+/**
+ * Flow at `position`, bilinearly interpolated between cell centres, or
+ * null without a field.
+ */
+export function sampleFlow(
+  field: FlowField | undefined,
+  position: Point2D
+): LocalFlow | null {
+  if (!field || field.angle.length === 0) return null;
+
+  const fx = Math.min(field.columns - 1, Math.max(0, position.x * field.columns - 0.5));
+  const fy = Math.min(field.rows - 1, Math.max(0, position.y * field.rows - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(field.columns - 1, x0 + 1);
+  const y1 = Math.min(field.rows - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  let vx = 0;
+  let vy = 0;
+  const add = (cx: number, cy: number, w: number) => {
+    const i = cy * field.columns + cx;
+    const theta = (field.angle[i] * Math.PI) / 90; // doubled angle
+    vx += Math.cos(theta) * field.strength[i] * w;
+    vy += Math.sin(theta) * field.strength[i] * w;
+  };
+  add(x0, y0, (1 - tx) * (1 - ty));
+  add(x1, y0, tx * (1 - ty));
+  add(x0, y1, (1 - tx) * ty);
+  add(x1, y1, tx * ty);
+
+  const angle = ((Math.atan2(vy, vx) * 90) / Math.PI + 180) % 180;
+  return { angle, strength: Math.min(1, Math.hypot(vx, vy)) };
+}
+
+/**
+ * The radial-gradient shape for a blob at `position`: a circle, or an
+ * ellipse stretched along the local flow.  CSS can't rotate a gradient,
+ * so the ellipse is the axis-aligned bounding shape of the rotated one
+ * — full stretch for horizontal or vertical flow, none at 45°.  Its
+ * radii are scaled from the circle's farthest-corner radius, so the
+ * blob's percentage stops keep their meaning.  Percentage radii are
+ * per-axis, so `dimensions` (the reference's size) convert that radius
+ * for a container of the same aspect; without them it is taken as
+ * square.
+ */
+export function blobShape(
+  position: Point2D,
+  field?: FlowField,
+  dimensions?: { width: number; height: number }
+): string {
+  const flow = sampleFlow(field, position);
+  if (!flow || flow.strength < MIN_FLOW_STRENGTH) return "circle";
+
+  const stretch = 1 + flow.strength * (MAX_FLOW_STRETCH - 1);
+  const major = Math.sqrt(stretch);
+  const minor = 1 / major;
+  const theta = (flow.angle * Math.PI) / 180;
+  const kx = Math.hypot(major * Math.cos(theta), minor * Math.sin(theta));
+  const ky = Math.hypot(major * Math.sin(theta), minor * Math.cos(theta));
+
+  const { w, h } = edgeFractions(dimensions);
+  const corner = farthestCorner(position, dimensions);
+  return `ellipse ${Math.round(((kx * corner) / w) * 100)}% ${Math.round(((ky * corner) / h) * 100)}%`;
+}
+
+/**
+ * Distance from `position` to the farthest container corner, as a
+ * fraction of the long edge — the ray length CSS measures a circle's
+ * percentage stops against.  Without `dimensions` the container is
+ * taken as square.
+ */
+export function farthestCorner(
+  position: Point2D,
+  dimensions?: { width: number; height: number }
+): number {
+  const { w, h } = edgeFractions(dimensions);
+  const du = Math.max(position.x, 1 - position.x) * w;
+  const dv = Math.max(position.y, 1 - position.y) * h;
+  return Math.hypot(du, dv);
+}
+
+/** Container edges as fractions of the long edge. */
+function edgeFractions(dimensions?: { width: number; height: number }): {
+  w: number;
+  h: number;
+} {
+  if (!dimensions) return { w: 1, h: 1 };
+  const longEdge = Math.max(dimensions.width, dimensions.height);
+  return { w: dimensions.width / longEdge, h: dimensions.height / longEdge };
+}
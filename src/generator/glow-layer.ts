@@ -0,0 +1,68 @@
+/**
+ * Generate the glow layer for bright focal glows.
+ *
+ * Each analysed glow becomes an elliptical radial-gradient sized from
+ * its radius (a fraction of the long edge) and stepped along its fitted
+ * falloff curve, so tight flares and broad blooms keep their shape.
+ * The layer sits above the blurred colour blobs and is not blurred
+ * itself — the falloff already provides the softness.
+ */
+
+import { GlowInfo, FidelityLevel } from "../types";
+
+/** Maximum glows rendered per fidelity level. */
+const MAX_GLOWS: Record<FidelityLevel, number> = {
+  exact: 3,
+  vibe: 2,
+  inspired: 1,
+};
+
+/** Gradient stops sampled along the falloff curve (including both ends). */
+const FALLOFF_STOPS = 5;
+
+/**
+ * Build a radial-gradient() value for one glow.
+ */
+function glowGradient(
+  glow: GlowInfo,
+  dimensions: { width: number; height: number }
+): string {
+  const longEdge = Math.max(dimensions.width, dimensions.height);
+  const rxPct = Math.round(((glow.radius * longEdge) / dimensions.width) * 100);
+  const ryPct = Math.round(((glow.radius * longEdge) / dimensions.height) * 100);
+  const xPct = Math.round(glow.position.x * 100);
+  const yPct = Math.round(glow.position.y * 100);
+  const peak = Math.min(0.9, glow.intensity);
+  const [r, g, b] = glow.rgb;
+
+  // Step along (1 - t) ^ falloff; rgba(R,G,B,0) at the rim avoids dark halos
+  const stops: string[] = [];
+  for (let i = 0; i < FALLOFF_STOPS; i++) {
+    const t = i / (FALLOFF_STOPS - 1);
+    const alpha = Math.round(peak * (1 - t) ** glow.falloff * 100) / 100;
+    stops.push(`rgba(${r},${g},${b},${alpha}) ${Math.round(t * 100)}%`);
+  }
+
+  return `radial-gradient(ellipse ${rxPct}% ${ryPct}% at ${xPct}% ${yPct}%, ${stops.join(", ")})`;
+}
+
+/**
+ * Return the CSS properties for the glow pseudo-element, or null when
+ * the spec has no glows.
+ */
+export function buildGlowLayerCSS(
+  glows: GlowInfo[] | undefined,
+  dimensions: { width: number; height: number },
+  fidelity: FidelityLevel
+): Record<string, string> | null {
+  const kept = (glows ?? []).slice(0, MAX_GLOWS[fidelity]);
+  if (kept.length === 0) return null;
+
+  return {
+    content: "''",
+    position: "absolute",
+    inset: "0",
+    background: kept.map((g) => glowGradient(g, dimensions)).join(",\n    "),
+    "pointer-events": "none",
+  };
+}
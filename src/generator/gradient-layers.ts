@@ -2,16 +2,93 @@
  * Generate CSS gradient layers from colour regions.
  *
  * Builds a set of radial-gradient() values for the blurred colour blobs,
- * and a linear-gradient() for the base.
+ * a linear-gradient() for the base, and the vignette overlay.  Bridge
+ * blobs placed where adjacent regions meet carry the measured in-between
+ * colour, so blends don't pass through muddy sRGB midpoints.
  */
 
-import { ColorRegion, FidelityLevel } from "../types";
+import {
+  ColorRegion,
+  FidelityLevel,
+  BaseProfile,
+  VignetteInfo,
+  RegionAdjacency,
+  FlowField,
+} from "../types";
+import { colorDistance, toColorSpace } from "../utils/color";
+import { blobShape } from "./flow-field";
+import { blobExtent, elongatedAxes, orientedBlob } from "./ellipse-blob";
+
+/** Maximum base gradient stops kept per fidelity level. */
+const BASE_STOPS: Record<FidelityLevel, number> = {
+  exact: 8,
+  vibe: 4,
+  inspired: 2,
+};
+
+/** Maximum bridge blobs per fidelity level. */
+const MAX_BRIDGES: Record<FidelityLevel, number> = {
+  exact: 4,
+  vibe: 2,
+  inspired: 1,
+};
+
+/** OKLab distance between the measured midpoint and the plain sRGB blend
+ *  below which the blend is close enough and needs no bridge. */
+const MIN_BRIDGE_DEVIATION = 0.05;
+
+/**
+ * Build a multi-stop linear-gradient from the analysed base profile.
+ * Keeps the two end stops plus the most significant interior stops,
+ * up to the fidelity's stop budget.  The end stops are measured at the
+ * centres of the outermost bins, so they are pinned to 0% and 100% for
+ * the gradient to reach the edge colours.
+ */
+export function buildProfileGradient(
+  profile: BaseProfile,
+  fidelity: FidelityLevel
+): string {
+  const { stops } = profile;
+  const interior = stops
+    .slice(1, -1)
+    .sort((a, b) => b.significance - a.significance)
+    .slice(0, Math.max(0, BASE_STOPS[fidelity] - 2));
+  const kept = [stops[0], ...interior, stops[stops.length - 1]]
+    .filter((s, i, arr) => arr.indexOf(s) === i)
+    .sort((a, b) => a.position - b.position);
+
+  const stopList = kept
+    .map((s, i) => `${s.hex} ${profileStopPct(s.position, i, kept.length)}%`)
+    .join(", ");
+  return `linear-gradient(${cssAngle(profile.angle)}deg, ${stopList})`;
+}
+
+/**
+ * Percentage for the `index`-th of `count` profile stops: the first and
+ * last are pinned to the gradient's ends.
+ */
+export function profileStopPct(position: number, index: number, count: number): number {
+  if (index === 0) return 0;
+  if (index === count - 1) return 100;
+  return Math.round(position * 100);
+}
 
 /**
  * Build the base linear-gradient CSS value.
- * Uses the two darkest / most widespread colours.
+ * Uses the analysed multi-stop profile when available, otherwise the two
+ * darkest / most widespread colours.  Null when there are neither (a
+ * fully transparent reference).
  */
-export function buildBaseGradient(colors: ColorRegion[]): string {
+export function buildBaseGradient(
+  colors: ColorRegion[],
+  fidelity: FidelityLevel = "vibe",
+  profile?: BaseProfile
+): string | null {
+  if (profile && profile.stops.length > 0) {
+    return buildProfileGradient(profile, fidelity);
+  }
+  if (colors.length === 0) return null;
+
   // Pick the two most prominent colors, preferring darker ones for the base
   const sorted = [...colors].sort((a, b) => {
     // Sort by luminance ascending (darker first), weighted by cluster weight
@@ -28,21 +105,75 @@ export function buildBaseGradient(colors: ColorRegion[]): string {
   const dy = c2.position.y - c1.position.y;
   const angle = Math.round((Math.atan2(dy, dx) * 180) / Math.PI + 90);
 
-  return `linear-gradient(${angle}deg, ${c1.hex} 0%, ${c2.hex} 100%)`;
+  return `linear-gradient(${cssAngle(angle)}deg, ${c1.hex} 0%, ${c2.hex} 100%)`;
+}
+
+/** A CSS gradient angle in degrees, normalised to 0-359. */
+export function cssAngle(deg: number): number {
+  return ((deg % 360) + 360) % 360;
 }
 
 /**
- * Build radial-gradient() values for colour blobs.
- * Each colour region becomes a radial gradient positioned at its centroid.
+ * Pseudo-regions for the borders where a plain sRGB blend of the two
+ * regions would miss the measured midpoint colour.  Each sits on the
+ * shared border, sized by its length, with the pair's lower weight and
+ * sharpness so it stays a soft wash underneath the regions themselves.
  */
-export function buildColorBlobs(
+export function buildBridgeRegions(
   colors: ColorRegion[],
+  adjacency: RegionAdjacency[] | undefined,
   fidelity: FidelityLevel
+): ColorRegion[] {
+  const bridges: ColorRegion[] = [];
+  for (const edge of adjacency ?? []) {
+    if (bridges.length >= MAX_BRIDGES[fidelity]) break;
+    const a = colors[edge.a];
+    const b = colors[edge.b];
+    if (!a || !b) continue;
+
+    const blend = a.rgb.map((v, i) => (v + b.rgb[i]) / 2) as [number, number, number];
+    const deviation = colorDistance(
+      toColorSpace(edge.midpoint.rgb, "oklab"),
+      toColorSpace(blend, "oklab")
+    );
+    if (deviation < MIN_BRIDGE_DEVIATION) continue;
+
+    bridges.push({
+      hex: edge.midpoint.hex,
+      rgb: edge.midpoint.rgb,
+      position: edge.position,
+      weight: Math.min(a.weight, b.weight),
+      spread: Math.min(0.5, edge.borderLength * 0.3),
+      edgeSharpness: Math.min(a.edgeSharpness, b.edgeSharpness),
+    });
+  }
+  return bridges;
+}
+
+/**
+ * Build background layers (mostly radial-gradient() values) for colour blobs.
+ * Each colour region becomes a radial gradient positioned at its centroid;
+ * bridge blobs from `adjacency` are added underneath.  Elongated regions
+ * become ellipses rotated to their principal axis (kept in proportion by
+ * the reference's `dimensions`); with a flow field, the rest are
+ * stretched along the local flow.
+ */
+export function buildColorBlobs(
+  colors: ColorRegion[],
+  fidelity: FidelityLevel,
+  adjacency?: RegionAdjacency[],
+  flow?: FlowField,
+  dimensions?: { width: number; height: number }
 ): string[] {
+  if (colors.length === 0) return [];
+
   // For "inspired" level, use only the top 2 blobs
   const maxBlobs =
     fidelity === "exact" ? colors.length : fidelity === "vibe" ? Math.min(colors.length, 4) : 2;
-  const blobs = colors.slice(0, maxBlobs);
+  const blobs = [
+    ...colors.slice(0, maxBlobs),
+    ...buildBridgeRegions(colors, adjacency, fidelity),
+  ];
 
   return blobs.map((c) => {
     const xPct = Math.round(c.position.x * 100);
@@ -59,6 +190,58 @@ export function buildColorBlobs(
     const midRadius = Math.round(radius * 0.55);
     const midOpacity = Math.round(opacity * 0.35 * 100) / 100;
 
-    return `radial-gradient(circle at ${xPct}% ${yPct}%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},${opacity}) 0%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},${midOpacity}) ${midRadius}%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},0) ${radius}%)`;
+    const axes = elongatedAxes(c);
+    if (axes) {
+      return orientedBlob(
+        c,
+        axes,
+        [
+          [opacity, 0],
+          [midOpacity, 0.55],
+          [0, 1],
+        ],
+        blobExtent(c),
+        dimensions
+      );
+    }
+
+    const shape = blobShape(c.position, flow, dimensions);
+    return `radial-gradient(${shape} at ${xPct}% ${yPct}%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},${opacity}) 0%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},${midOpacity}) ${midRadius}%, rgba(${c.rgb[0]},${c.rgb[1]},${c.rgb[2]},0) ${radius}%)`;
   });
 }
+
+/**
+ * Build the vignette radial-gradient() overlay, or null when no vignette
+ * was detected.  Reproduces the analysed centre, ellipse aspect, falloff
+ * and tint; specs without those fields get the classic centred black
+ * vignette.
+ */
+export function buildVignetteGradient(vignette: VignetteInfo): string | null {
+  const strength = vignette.strength ?? 0;
+  if (!vignette.detected || strength <= 0.1) return null;
+
+  const opacity = Math.round(strength * 0.6 * 100) / 100;
+  if (!vignette.center || !vignette.falloff) {
+    return `radial-gradient(ellipse at center, transparent 40%, rgba(0,0,0,${opacity}) 100%)`;
+  }
+
+  const { center, falloff } = vignette;
+  const aspect = vignette.aspect ?? 1;
+  const [r, g, b] = vignette.tint?.rgb ??
+    (vignette.type === "bright" ? [255, 255, 255] : [0, 0, 0]);
+
+  // Size the ellipse so its edge passes through the farthest corner
+  const du = Math.max(center.x, 1 - center.x);
+  const dv = Math.max(center.y, 1 - center.y);
+  const ry = Math.sqrt((du / aspect) ** 2 + dv ** 2);
+  const rxPct = Math.round(aspect * ry * 100);
+  const ryPct = Math.round(ry * 100);
+
+  const xPct = Math.round(center.x * 100);
+  const yPct = Math.round(center.y * 100);
+  const startPct = Math.round(falloff.start * 100);
+  const endPct = Math.round(falloff.end * 100);
+
+  // rgba(R,G,B,0) rather than `transparent` so tinted falloffs stay clean
+  return `radial-gradient(ellipse ${rxPct}% ${ryPct}% at ${xPct}% ${yPct}%, rgba(${r},${g},${b},0) ${startPct}%, rgba(${r},${g},${b},${opacity}) ${endPct}%)`;
+}
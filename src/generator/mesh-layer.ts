@@ -12,8 +12,19 @@
  * regions become mesh-positioned layers with per-group blur.
  */
 
-import { GradientSpec, ColorRegion, FidelityLevel } from "../types";
+import {
+  GradientSpec,
+  ColorRegion,
+  FidelityLevel,
+  BaseProfile,
+} from "../types";
 import { buildBlurLayers, BlurLayerResult, blurRadiusPx } from "./blur-layer";
+import {
+  buildProfileGradient,
+  buildVignetteGradient,
+  buildBridgeRegions,
+  cssAngle,
+} from "./gradient-layers";
 import { luminance } from "../utils/color";
 
 // ─── Public types ────────────────────────────────────────────────────
@@ -48,12 +59,18 @@ function pickBaseRegion(colors: ColorRegion[]): ColorRegion | null {
 
 /**
  * Build a linear-gradient base from the base region and the next
- * darkest region, producing a subtle directional tone.
+ * darkest region, producing a subtle directional tone.  The analysed
+ * multi-stop profile takes precedence when there is one.
  */
 function buildHybridBase(
   baseRegion: ColorRegion,
-  secondaryRegion: ColorRegion | null
+  secondaryRegion: ColorRegion | null,
+  fidelity: FidelityLevel,
+  profile?: BaseProfile
 ): string {
+  if (profile && profile.stops.length > 0) {
+    return buildProfileGradient(profile, fidelity);
+  }
   if (!secondaryRegion) {
     return baseRegion.hex;
   }
@@ -62,14 +79,24 @@ function buildHybridBase(
   const dy = secondaryRegion.position.y - baseRegion.position.y;
   const angle = Math.round((Math.atan2(dy, dx) * 180) / Math.PI + 90);
 
-  return `linear-gradient(${angle}deg, ${baseRegion.hex} 0%, ${secondaryRegion.hex} 100%)`;
+  return `linear-gradient(${cssAngle(angle)}deg, ${baseRegion.hex} 0%, ${secondaryRegion.hex} 100%)`;
 }
 
 /**
- * Build a solid-colour or gradient base for the mesh strategy
- * using the two darkest colours.
+ * Build a solid-colour or gradient base for the mesh strategy.
+ * Uses the analysed multi-stop profile when available, otherwise the
+ * two darkest colours ("transparent" when there are none).
  */
-function buildMeshBase(colors: ColorRegion[]): string {
+function buildMeshBase(
+  colors: ColorRegion[],
+  fidelity: FidelityLevel,
+  profile?: BaseProfile
+): string {
+  if (profile && profile.stops.length > 0) {
+    return buildProfileGradient(profile, fidelity);
+  }
+  if (colors.length === 0) return "transparent";
+
   const sorted = [...colors].sort((a, b) => {
     const lumA = luminance(a.rgb[0], a.rgb[1], a.rgb[2]);
     const lumB = luminance(b.rgb[0], b.rgb[1], b.rgb[2]);
@@ -85,7 +112,7 @@ function buildMeshBase(colors: ColorRegion[]): string {
   const dy = c2.position.y - c1.position.y;
   const angle = Math.round((Math.atan2(dy, dx) * 180) / Math.PI + 90);
 
-  return `linear-gradient(${angle}deg, ${c1.hex} 0%, ${c2.hex} 100%)`;
+  return `linear-gradient(${cssAngle(angle)}deg, ${c1.hex} 0%, ${c2.hex} 100%)`;
 }
 
 // ─── Public API ──────────────────────────────────────────────────────
@@ -93,21 +120,35 @@ function buildMeshBase(colors: ColorRegion[]): string {
 /**
  * Generate mesh-style output for the "mesh" strategy.
  * All regions become blur-tiered accent layers.
+ * With `transparent`, the container gets no base or vignette.
  */
 export function buildMeshLayers(
   spec: GradientSpec,
-  fidelity: FidelityLevel
+  fidelity: FidelityLevel,
+  transparent: boolean = false
 ): MeshOutput {
-  const blurResult = buildBlurLayers(spec.colors, spec.blur, fidelity);
+  const bridges = buildBridgeRegions(spec.colors, spec.adjacency, fidelity);
+  const blurResult = buildBlurLayers(
+    [...spec.colors, ...bridges],
+    spec.blur,
+    fidelity,
+    spec.shapes?.flowField,
+    spec.dimensions
+  );
+
+  if (transparent) {
+    return {
+      containerBackground: "transparent",
+      blurResult,
+      accentRegions: spec.colors,
+    };
+  }
 
   // Add vignette to the base background if detected
-  let containerBackground = buildMeshBase(spec.colors);
-  if (spec.vignette.detected && spec.vignette.strength > 0.1) {
-    const vigOpacity = Math.round(spec.vignette.strength * 0.6 * 100) / 100;
-    containerBackground = [
-      `radial-gradient(ellipse at center, transparent 40%, rgba(0,0,0,${vigOpacity}) 100%)`,
-      containerBackground,
-    ].join(",\n    ");
+  let containerBackground = buildMeshBase(spec.colors, fidelity, spec.baseProfile);
+  const vignette = buildVignetteGradient(spec.vignette);
+  if (vignette) {
+    containerBackground = [vignette, containerBackground].join(",\n    ");
   }
 
   return {
@@ -120,11 +161,15 @@ export function buildMeshLayers(
 /**
  * Generate hybrid output: a base layer from the dominant region, and
  * mesh-style accent layers for the remaining regions.
+ * With `transparent`, there is no base — every region is an accent.
  */
 export function buildHybridLayers(
   spec: GradientSpec,
-  fidelity: FidelityLevel
+  fidelity: FidelityLevel,
+  transparent: boolean = false
 ): MeshOutput {
+  if (transparent) return buildMeshLayers(spec, fidelity, true);
+
   const baseRegion = pickBaseRegion(spec.colors);
 
   let accentRegions: ColorRegion[];
@@ -142,24 +187,28 @@ export function buildHybridLayers(
     });
     const secondary = darkSorted[0] || null;
 
-    containerBackground = buildHybridBase(baseRegion, secondary);
+    containerBackground = buildHybridBase(baseRegion, secondary, fidelity, spec.baseProfile);
   } else {
     // No clear dominant region — fall back to mesh-style base
     accentRegions = spec.colors;
-    containerBackground = buildMeshBase(spec.colors);
+    containerBackground = buildMeshBase(spec.colors, fidelity, spec.baseProfile);
   }
 
   // Add vignette
-  if (spec.vignette.detected && spec.vignette.strength > 0.1) {
-    const vigOpacity = Math.round(spec.vignette.strength * 0.6 * 100) / 100;
-    containerBackground = [
-      `radial-gradient(ellipse at center, transparent 40%, rgba(0,0,0,${vigOpacity}) 100%)`,
-      containerBackground,
-    ].join(",\n    ");
+  const vignette = buildVignetteGradient(spec.vignette);
+  if (vignette) {
+    containerBackground = [vignette, containerBackground].join(",\n    ");
   }
 
-  // Build blur layers from the accent regions only
-  const blurResult = buildBlurLayers(accentRegions, spec.blur, fidelity);
+  // Build blur layers from the accent regions (plus bridges) only
+  const bridges = buildBridgeRegions(spec.colors, spec.adjacency, fidelity);
+  const blurResult = buildBlurLayers(
+    [...accentRegions, ...bridges],
+    spec.blur,
+    fidelity,
+    spec.shapes?.flowField,
+    spec.dimensions
+  );
 
   return {
     containerBackground,
@@ -4,40 +4,145 @@
  * The returned CSS fragment targets a ::after pseudo-element that
  * overlays noise on top of the gradient layers.
  *
- * Enhanced to use continuous baseFrequency, map sharpness → numOctaves,
- * map contrast → opacity, and auto-select blend mode from mood.
+ * Grain frequency and strength come from the native-resolution noise
+ * measurement (spectrum or baseFrequency, and intensity → opacity);
+ * references without grain get no overlay.  Blend mode is auto-selected
+ * from mood.
+ * Directional grain (scanlines, brushed streaks) from the spectrum
+ * analysis becomes an x/y baseFrequency pair, and the grain's chroma and
+ * tint become an feColorMatrix after the turbulence.  A luminance response
+ * (grain fading in the highlights) becomes a mask-image that follows the
+ * base gradient's tones.
  */
 
-import { NoiseInfo, MoodInfo, FidelityLevel } from "../types";
+import { NoiseInfo, MoodInfo, FidelityLevel, BaseProfile } from "../types";
+import { luminance } from "../utils/color";
+import { cssAngle, profileStopPct } from "./gradient-layers";
+
+/** Maximum ratio between across- and along-streak frequencies. */
+const MAX_STRETCH = 8;
+
+/** Lowest baseFrequency derived from a measurement (very coarse grain). */
+const MIN_BASE_FREQUENCY = 0.05;
+
+/** Highest baseFrequency derived from a measurement (pixel-level grain). */
+const MAX_BASE_FREQUENCY = 1;
+
+/** Mean saturation above which the palette counts as vivid. */
+const VIVID_SATURATION = 0.65;
+
+/** Grain intensity below which no noise overlay is emitted. */
+const MIN_GRAIN_INTENSITY = 0.05;
+
+/** Overlay opacity per unit of measured grain intensity. */
+const OPACITY_PER_INTENSITY = 1.5;
+
+/** Strongest overlay opacity; beyond this grain obscures the gradient. */
+const MAX_GRAIN_OPACITY = 0.9;
+
+/** Weakest-to-strongest band ratio above which grain counts as even. */
+const FLAT_RESPONSE = 0.85;
 
 /**
  * Map noise analysis to feTurbulence parameters.
  */
 function turbulenceParams(
-  _noise: NoiseInfo,
+  noise: NoiseInfo,
   fidelity: FidelityLevel,
-  _mood?: MoodInfo
+  mood?: MoodInfo
 ) {
-  // ── Fixed grain defaults ───────────────────────────────────────────
-  // Analyser noise data is informational only. Every gradient gets the
-  // same strong, coarse, full-strength grain overlay. Users can fine-tune
-  // via the refinement guide or override presets in the skill.
-  const baseFrequency = 0.45;
+  // ── baseFrequency: the grain's measured spatial frequency ─────────
+  // The spectrum's dominant frequency (cycles per reference pixel) maps
+  // straight onto feTurbulence, which renders the 256-unit tile at one
+  // unit per CSS pixel.  Without a spectrum the analyser's continuous
+  // baseFrequency stands in.  Directional grain stretches it into an x/y
+  // pair.
+  const baseFrequency = directionalFrequency(
+    spectrumFrequency(noise) ?? noise.baseFrequency,
+    noise
+  );
 
   // ── numOctaves: always maximum crispness ────────────────────────────
   const numOctaves = 6;
 
-  // ── opacity: near-full strength ─────────────────────────────────────
-  // With mix-blend-mode: overlay, 0.9 opacity produces pronounced,
-  // clearly visible grain without obscuring the gradient underneath.
-  const opacity = 0.9;
+  // ── opacity: follows the measured grain strength ──────────────────
+  // Capped at 0.9, where overlay grain is pronounced but still doesn't
+  // obscure the gradient underneath.
+  const opacity =
+    Math.round(Math.min(MAX_GRAIN_OPACITY, noise.intensity * OPACITY_PER_INTENSITY) * 100) /
+    100;
 
-  // ── blend mode: always overlay ─────────────────────────────────────
-  const blendMode = "overlay";
+  // ── blend mode: overlay, soft-light for vivid palettes ─────────────
+  // Overlay pushes saturated channels into clipping and shifts their
+  // hue; soft-light keeps vivid colours intact while still showing grain.
+  const blendMode =
+    (mood?.saturation ?? 0) >= VIVID_SATURATION ? "soft-light" : "overlay";
 
   return { baseFrequency, numOctaves, opacity, blendMode };
 }
 
+/**
+ * The spectrum's dominant frequency clamped to a usable feTurbulence
+ * range, or null without a spectrum.
+ */
+function spectrumFrequency(noise: NoiseInfo): number | null {
+  if (!noise.spectrum) return null;
+  const { dominantFrequency } = noise.spectrum;
+  return Math.min(MAX_BASE_FREQUENCY, Math.max(MIN_BASE_FREQUENCY, dominantFrequency));
+}
+
+/**
+ * Turn an isotropic baseFrequency into the feTurbulence attribute value,
+ * stretching it into an "x y" pair for directional grain.  The base
+ * frequency — for streaks and scanlines, the frequency measured across
+ * them — runs across the grain and a lower one along it.  feTurbulence
+ * can't rotate, so diagonal grain is stretched less, towards the nearer
+ * axis.
+ */
+function directionalFrequency(base: number, noise: NoiseInfo): string {
+  const round3 = (v: number) => Math.round(v * 1000) / 1000;
+  const spectrum = noise.spectrum;
+  if (!spectrum || spectrum.pattern === "isotropic") return String(round3(base));
+
+  const theta = (spectrum.angle * Math.PI) / 180;
+  const alignment = Math.cos(2 * theta); // 1 = horizontal, -1 = vertical
+  const stretch = 1 + spectrum.anisotropy * (MAX_STRETCH - 1) * Math.abs(alignment);
+
+  const along = base / stretch;
+
+  return alignment >= 0
+    ? `${round3(along)} ${round3(base)}`
+    : `${round3(base)} ${round3(along)}`;
+}
+
+/**
+ * feColorMatrix that gives the turbulence the analysed grain colour:
+ * each channel is mixed between the noise's luminance (chroma 0,
+ * monochrome grain) and its own independent value (chroma 1, colour
+ * speckle), then scaled by the tint around mid-grey — the neutral point
+ * of the overlay blend.  Measured monochrome grain (chroma 0) is
+ * therefore fully desaturated, deliberately unlike the coloured fractal
+ * noise emitted before grain colour was analysed: colour speckle over a
+ * film reference reads as sensor noise.  Empty for specs without chroma
+ * analysis, which keep that coloured noise.
+ */
+function grainColorMatrix(noise: NoiseInfo): string {
+  if (noise.chroma === undefined) return "";
+
+  const k = noise.chroma;
+  const tint = (noise.tint?.rgb ?? [255, 255, 255]).map((c) => c / 255);
+  const lum = [0.299, 0.587, 0.114];
+  const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+  const rows = tint.map((t, c) => {
+    const coeffs = lum.map((w, i) => round3(t * ((1 - k) * w + (i === c ? k : 0))));
+    return [...coeffs, 0, round3(0.5 * (1 - t))].join(" ");
+  });
+  rows.push("0 0 0 1 0");
+
+  return `<feColorMatrix type='matrix' values='${rows.join(" ")}'/>`;
+}
+
 /**
  * Build the inline SVG data URI for the noise texture.
  */
@@ -47,22 +152,60 @@ export function buildNoiseSvgDataUri(
   mood?: MoodInfo
 ): string {
   const { baseFrequency, numOctaves } = turbulenceParams(noise, fidelity, mood);
+  const colorMatrix = grainColorMatrix(noise);
 
-  const svg = `<svg viewBox='0 0 256 256' xmlns='http://www.w3.org/2000/svg'><filter id='n'><feTurbulence type='fractalNoise' baseFrequency='${baseFrequency}' numOctaves='${numOctaves}' stitchTiles='stitch'/></filter><rect width='100%' height='100%' filter='url(#n)'/></svg>`;
+  const svg = `<svg viewBox='0 0 256 256' xmlns='http://www.w3.org/2000/svg'><filter id='n'><feTurbulence type='fractalNoise' baseFrequency='${baseFrequency}' numOctaves='${numOctaves}' stitchTiles='stitch'/>${colorMatrix}</filter><rect width='100%' height='100%' filter='url(#n)'/></svg>`;
 
   return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
 }
 
 /**
- * Return the CSS properties for the noise overlay pseudo-element.
+ * Grain strength at a 0-1 luminance, interpolated between the centres of
+ * the response's luminance bands.
+ */
+function responseAt(response: number[], lum: number): number {
+  const pos = Math.min(response.length - 1, Math.max(0, lum * response.length - 0.5));
+  const i = Math.min(response.length - 2, Math.floor(pos));
+  const t = pos - i;
+  return response[i] * (1 - t) + response[i + 1] * t;
+}
+
+/**
+ * mask-image that fades the grain where the base gradient's tones carry
+ * less of it: the base profile's stops, recoloured to the grain strength
+ * at their luminance.  Null when the response is even, unknown, or there
+ * is no base profile to follow.
+ */
+function grainMask(noise: NoiseInfo, profile?: BaseProfile): string | null {
+  const response = noise.luminanceResponse;
+  if (!response || response.length < 2 || !profile || profile.stops.length === 0) {
+    return null;
+  }
+  if (Math.min(...response) / Math.max(...response) >= FLAT_RESPONSE) return null;
+
+  const stops = profile.stops.map((s, i, all) => {
+    const alpha = Math.round(responseAt(response, luminance(...s.rgb)) * 100) / 100;
+    return `rgba(0,0,0,${alpha}) ${profileStopPct(s.position, i, all.length)}%`;
+  });
+  return `linear-gradient(${cssAngle(profile.angle)}deg, ${stops.join(", ")})`;
+}
+
+/**
+ * Return the CSS properties for the noise overlay pseudo-element, or
+ * null when the reference has no grain to speak of.
+ * Pass the base profile to shape luminance-dependent grain.
  */
 export function buildNoiseLayerCSS(
   noise: NoiseInfo,
   fidelity: FidelityLevel,
-  mood?: MoodInfo
-): Record<string, string> {
+  mood?: MoodInfo,
+  profile?: BaseProfile
+): Record<string, string> | null {
+  if (noise.intensity < MIN_GRAIN_INTENSITY) return null;
+
   const { opacity, blendMode } = turbulenceParams(noise, fidelity, mood);
   const dataUri = buildNoiseSvgDataUri(noise, fidelity, mood);
+  const mask = grainMask(noise, profile);
 
   return {
     content: "''",
@@ -71,6 +214,7 @@ export function buildNoiseLayerCSS(
     background: dataUri,
     opacity: String(opacity),
     "mix-blend-mode": blendMode,
+    ...(mask ? { "mask-image": mask } : {}),
     "pointer-events": "none",
   };
 }
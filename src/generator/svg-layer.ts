@@ -0,0 +1,268 @@
+/**
+ * Generate the SVG shape layer for the organic strategy.
+ *
+ * Each ShapeContour becomes a <path> in a viewBox that maps the
+ * analyser's 0-1 positions onto 0-100, drawn through one of five blur
+ * filters (b1 atmospheric … b5 crisp) chosen from the contour's blur.
+ * Contours carry a traced `path`; older specs without one fall back to
+ * the shape-type templates from the technique reference, which bend and
+ * turn with the local flow field.  Shapes are painted deepest tier first
+ * so crisp foreground forms sit on top.  The SVG is inlined as a data-URI
+ * background layer, like the noise texture, so the generated CSS works
+ * without any extra markup.
+ */
+
+import { ShapeContour, FidelityLevel, FlowField, Point2D } from "../types";
+import { hexToRgb } from "../utils/color";
+import { sampleFlow } from "./flow-field";
+
+/** Blur filter tiers, deepest first: [id, stdDeviation in viewBox units]. */
+const BLUR_TIERS: Array<[string, number]> = [
+  ["b1", 18],
+  ["b2", 9],
+  ["b3", 4.5],
+  ["b4", 1.5],
+  ["b5", 0.4],
+];
+
+/** Maximum shapes rendered per fidelity level. */
+const MAX_SHAPES: Record<FidelityLevel, number> = {
+  exact: Infinity,
+  vibe: 8,
+  inspired: 4,
+};
+
+/**
+ * Overflow (in viewBox units) around the 0-100 area, so blurred shapes
+ * near the edges aren't clipped by the SVG's own bounds.
+ */
+const SVG_OVERFLOW = 15;
+
+/**
+ * Build the <svg> document for the contours, or null when there are none
+ * to draw.  `flow` orients the templates of contours without a traced
+ * path.
+ */
+export function buildShapeSvg(
+  contours: ShapeContour[],
+  fidelity: FidelityLevel,
+  flow?: FlowField
+): string | null {
+  const kept = contours.slice(0, MAX_SHAPES[fidelity]);
+  if (kept.length === 0) return null;
+
+  const shapes = kept
+    .map((c) => ({ contour: c, tier: blurTier(c.blur) }))
+    .sort((a, b) => a.tier - b.tier)
+    .map(({ contour, tier }) => shapeElement(contour, BLUR_TIERS[tier][0], flow));
+
+  const filters = BLUR_TIERS.map(
+    ([id, sd]) =>
+      `<filter id='${id}' x='-50%' y='-50%' width='200%' height='200%'><feGaussianBlur stdDeviation='${sd}'/></filter>`
+  );
+
+  const min = -SVG_OVERFLOW;
+  const size = 100 + 2 * SVG_OVERFLOW;
+  return [
+    `<svg viewBox='${min} ${min} ${size} ${size}' preserveAspectRatio='none' xmlns='http://www.w3.org/2000/svg'>`,
+    `<defs>${filters.join("")}</defs>`,
+    ...shapes,
+    `</svg>`,
+  ].join("");
+}
+
+/**
+ * CSS background layer drawing the contours' SVG, or null when there
+ * are none.  The SVG's overflow margin extends past the element on every
+ * side, so shapes meet the edges at their true positions and their blur
+ * fades out beyond them.
+ */
+export function buildShapeLayer(
+  contours: ShapeContour[],
+  fidelity: FidelityLevel,
+  flow?: FlowField
+): string | null {
+  const svg = buildShapeSvg(contours, fidelity, flow);
+  if (!svg) return null;
+
+  const size = 100 + 2 * SVG_OVERFLOW;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}") center / ${size}% ${size}% no-repeat`;
+}
+
+/** Tier index (0 = b1 … 4 = b5) for a contour blur of 0-1. */
+function blurTier(blur: number): number {
+  const clamped = Math.min(1, Math.max(0, blur));
+  return Math.min(BLUR_TIERS.length - 1, Math.floor((1 - clamped) * BLUR_TIERS.length));
+}
+
+/** One <path> element for a contour. */
+function shapeElement(c: ShapeContour, filter: string, flow?: FlowField): string {
+  const [r, g, b] = hexToRgb(c.color);
+  const paint = `rgba(${r},${g},${b},${c.opacity})`;
+
+  if (c.path) {
+    return `<path d='${scalePath(c.path)}' fill='${paint}' fill-rule='evenodd' filter='url(#${filter})'/>`;
+  }
+
+  // Wisps are strokes; every other template is a filled outline
+  if (c.type === "wisp") {
+    const width = round1(Math.max(0.5, c.thickness * 100));
+    return `<path d='${wispTemplate(c, flow)}' stroke='${paint}' stroke-width='${width}' stroke-linecap='round' fill='none' filter='url(#${filter})'/>`;
+  }
+  return `<path d='${outlineTemplate(c, flow)}' fill='${paint}' filter='url(#${filter})'/>`;
+}
+
+/** Rescale normalised (0-1) path data to viewBox units (0-100). */
+function scalePath(path: string): string {
+  return path.replace(/-?\d*\.?\d+/g, (n) => String(round1(parseFloat(n) * 100)));
+}
+
+// ─── Shape-type templates (specs without a traced path) ──────────────
+
+/** Start and end of a contour's axis, in viewBox units. */
+function axisEnds(c: ShapeContour): [Point2D, Point2D] {
+  const rad = (c.direction * Math.PI) / 180;
+  const half = 30;
+  const start = c.startPoint
+    ? scale(c.startPoint)
+    : { x: c.position.x * 100 - Math.cos(rad) * half, y: c.position.y * 100 - Math.sin(rad) * half };
+  const end = c.endPoint
+    ? scale(c.endPoint)
+    : { x: c.position.x * 100 + Math.cos(rad) * half, y: c.position.y * 100 + Math.sin(rad) * half };
+  return [start, end];
+}
+
+/** Unit normal to the segment a → b. */
+function normal(a: Point2D, b: Point2D): Point2D {
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+}
+
+/**
+ * Offset along the chord's normal for the control point(s) of a curve
+ * from a to b: the contour's own bend, turned towards the local flow at
+ * `a` as far as the flow is coherent.  `reach` is the fraction of the
+ * chord at which the first control point sits (½ for a quadratic, ⅓ for
+ * a cubic), so the curve leaves `a` along the flow.
+ */
+function flowBend(
+  a: Point2D,
+  b: Point2D,
+  own: number,
+  reach: number,
+  field?: FlowField
+): number {
+  const local = sampleFlow(field, { x: a.x / 100, y: a.y / 100 });
+  if (!local) return own;
+
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  const chordAngle = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+  // Flow is axial: take the turn within ±90°, then limit it to ±45°
+  const turn = ((((local.angle - chordAngle) % 180) + 270) % 180) - 90;
+  const limited = Math.max(-45, Math.min(45, turn));
+  const follow = chord * reach * Math.tan((limited * Math.PI) / 180);
+  return own * (1 - local.strength) + follow * local.strength;
+}
+
+/** Blend two axial orientations (degrees) by weight `t` towards `b`. */
+function blendAxial(a: number, b: number, t: number): number {
+  const ra = (a * Math.PI) / 90;
+  const rb = (b * Math.PI) / 90;
+  const x = Math.cos(ra) * (1 - t) + Math.cos(rb) * t;
+  const y = Math.sin(ra) * (1 - t) + Math.sin(rb) * t;
+  return ((Math.atan2(y, x) * 90) / Math.PI + 180) % 180;
+}
+
+function wispTemplate(c: ShapeContour, flow?: FlowField): string {
+  const [a, b] = axisEnds(c);
+  const n = normal(a, b);
+  const own = c.curvature * Math.hypot(b.x - a.x, b.y - a.y) * 0.25;
+  const bend = flowBend(a, b, own, 0.5, flow);
+  const ctrl = { x: (a.x + b.x) / 2 + n.x * bend, y: (a.y + b.y) / 2 + n.y * bend };
+  return `M${pt(a)} Q${pt(ctrl)} ${pt(b)}`;
+}
+
+/**
+ * Closed outline for the filled shape types: waves and ribbons are
+ * bands along their axis, petals run from base to tip, angular veils
+ * join their vertices, and veils are a rounded mass at their position,
+ * turned towards the local flow.
+ */
+function outlineTemplate(c: ShapeContour, flow?: FlowField): string {
+  if (c.type === "angular-veil" && c.vertices && c.vertices.length >= 3) {
+    return `M${c.vertices.map((v) => pt(scale(v))).join(" L")} Z`;
+  }
+
+  const [a, b] = axisEnds(c);
+  const n = normal(a, b);
+  const thickness = Math.max(2, c.thickness * 100);
+  const offset = (p: Point2D, d: number) => ({ x: p.x + n.x * d, y: p.y + n.y * d });
+  const along = (t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+  switch (c.type) {
+    case "wave": {
+      const amp = (c.amplitude ?? 0.1) * 100;
+      const c1 = offset(along(1 / 3), -amp);
+      const c2 = offset(along(2 / 3), amp);
+      return [
+        `M${pt(a)} C${pt(c1)} ${pt(c2)} ${pt(b)}`,
+        `L${pt(offset(b, thickness))}`,
+        `C${pt(offset(c2, thickness))} ${pt(offset(c1, thickness))} ${pt(offset(a, thickness))} Z`,
+      ].join(" ");
+    }
+    case "ribbon": {
+      const bend = flowBend(a, b, -c.curvature * thickness, 1 / 3, flow);
+      const c1 = offset(along(1 / 3), bend);
+      const c2 = offset(along(2 / 3), bend);
+      return [
+        `M${pt(offset(a, -thickness / 2))} C${pt(offset(c1, -thickness / 2))} ${pt(offset(c2, -thickness / 2))} ${pt(offset(b, -thickness / 2))}`,
+        `L${pt(offset(b, thickness / 2))}`,
+        `C${pt(offset(c2, thickness / 2))} ${pt(offset(c1, thickness / 2))} ${pt(offset(a, thickness / 2))} Z`,
+      ].join(" ");
+    }
+    case "petal": {
+      const tip = c.tipPoint ? scale(c.tipPoint) : b;
+      const base = a;
+      const pn = normal(base, tip);
+      const width = (c.bodyWidth ?? 0.5) * Math.hypot(tip.x - base.x, tip.y - base.y);
+      const body = { x: base.x + (tip.x - base.x) * 0.35, y: base.y + (tip.y - base.y) * 0.35 };
+      const left = { x: body.x + pn.x * width, y: body.y + pn.y * width };
+      const right = { x: body.x - pn.x * width, y: body.y - pn.y * width };
+      return `M${pt(tip)} C${pt(left)} ${pt(left)} ${pt(base)} C${pt(right)} ${pt(right)} ${pt(tip)} Z`;
+    }
+    default: {
+      // Veil: four quadratic lobes around the position
+      const centre = scale(c.position);
+      const rx = Math.max(10, Math.hypot(b.x - a.x, b.y - a.y) / 2);
+      const ry = Math.max(5, thickness);
+      const local = sampleFlow(flow, c.position);
+      const direction = local
+        ? blendAxial(c.direction % 180, local.angle, local.strength)
+        : c.direction;
+      const rad = (direction * Math.PI) / 180;
+      const at = (u: number, v: number) => ({
+        x: centre.x + u * Math.cos(rad) - v * Math.sin(rad),
+        y: centre.y + u * Math.sin(rad) + v * Math.cos(rad),
+      });
+      return [
+        `M${pt(at(rx, 0))}`,
+        `Q${pt(at(rx, ry))} ${pt(at(0, ry))}`,
+        `Q${pt(at(-rx, ry))} ${pt(at(-rx, 0))}`,
+        `Q${pt(at(-rx, -ry))} ${pt(at(0, -ry))}`,
+        `Q${pt(at(rx, -ry))} ${pt(at(rx, 0))} Z`,
+      ].join(" ");
+    }
+  }
+}
+
+function scale(p: Point2D): Point2D {
+  return { x: p.x * 100, y: p.y * 100 };
+}
+
+function pt(p: Point2D): string {
+  return `${round1(p.x)},${round1(p.y)}`;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -6,20 +6,37 @@
  */
 
 export { analyzeImage } from "./analyzer/index";
+export type { AnalyzeOptions } from "./analyzer/index";
 export { generateCSS } from "./generator/index";
 export type {
   GradientSpec,
   GradientStrategy,
   ColorRegion,
+  RegionAdjacency,
   NoiseInfo,
+  NoiseSpectrum,
   BlurInfo,
+  BlurDepthMap,
   VignetteInfo,
+  GlowInfo,
+  TransparencyInfo,
   MoodInfo,
+  NamedHue,
   ShapeInfo,
+  FlowField,
   ShapeContour,
   ShapeType,
   ShapeStyle,
   Point2D,
   FidelityLevel,
+  ImageInput,
+  RawPixels,
+  CropRegion,
+  CropValue,
+  PixelRect,
+  ColorSpace,
+  ClusterSelection,
+  BaseProfile,
+  GradientStop,
   GeneratorOptions,
 } from "./types";
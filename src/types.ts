@@ -2,21 +2,60 @@
  * Core types for the GradientBro analysis and generation pipeline.
  */
 
-/** A color region extracted from the image via k-means clustering. */
+/**
+ * A color region extracted from the image via k-means clustering.
+ * Clusters that cover several disconnected patches are split so that
+ * each region describes one spatially connected blob.
+ */
 export interface ColorRegion {
   /** Hex color string, e.g. "#B87333" */
   hex: string;
   /** RGB components [0-255] */
   rgb: [number, number, number];
-  /** Centroid position of this color cluster, normalised 0-1 */
+  /** Centroid position of this region's blob, normalised 0-1 */
   position: { x: number; y: number };
-  /** Proportion of pixels belonging to this cluster, 0-1 */
+  /** Proportion of pixels belonging to this region, 0-1 */
   weight: number;
   /** How spread-out the cluster is spatially, 0-1 */
   spread: number;
   /** How sharply defined this region's boundary is, 0-1.
-   *  1 = crisp edge, 0 = completely diffuse. */
+   *  1 = crisp edge, 0 = completely diffuse.  Derived from the
+   *  transition width, so it is independent of edge contrast. */
   edgeSharpness: number;
+  /** Distance over which the colour ramps 10% → 90% into neighbouring
+   *  regions (median), as a fraction of the long edge. */
+  transitionWidth?: number;
+  /** Mean opacity of this region across its edge, outward: sampled at
+   *  -1, -0.5, 0, 0.5 and 1 transition widths from the 50% point. */
+  edgeProfile?: number[];
+  /** Measured blur (Gaussian σ) of this region's edges, as a fraction of
+   *  the long edge.  Absent when the region has too few edges to measure. */
+  blurRadius?: number;
+  /** Orientation of the region's principal (long) axis in degrees, 0-180
+   *  (0 = right, 90 = down), from the covariance of its pixel positions. */
+  axisAngle?: number;
+  /** Semi-axis lengths of the region's equivalent ellipse (2σ along the
+   *  principal axes — the exact radii for a uniformly filled ellipse), as
+   *  fractions of the long edge. */
+  majorAxis?: number;
+  minorAxis?: number;
+}
+
+/**
+ * Two colour regions that share a border, and the colour found where
+ * they meet.
+ */
+export interface RegionAdjacency {
+  /** Index of the first region in GradientSpec.colors */
+  a: number;
+  /** Index of the second region in GradientSpec.colors */
+  b: number;
+  /** Length of the shared border as a fraction of the long edge */
+  borderLength: number;
+  /** Mean colour of the pixels on either side of the shared border */
+  midpoint: { hex: string; rgb: [number, number, number] };
+  /** Centre of the shared border, normalised 0-1 */
+  position: { x: number; y: number };
 }
 
 /** Noise / grain characteristics detected in the image. */
@@ -36,6 +75,40 @@ export interface NoiseInfo {
   /** Continuous feTurbulence baseFrequency value, 0.3-1.0.
    *  Maps directly to SVG without lossy categorical conversion. */
   baseFrequency: number;
+  /** How chromatic the grain is, 0 = luminance-only (monochrome film,
+   *  most digital grain overlays), 1 = independent colour speckle per
+   *  channel (sensor noise) */
+  chroma?: number;
+  /** Relative grain strength per channel as a colour; white = neutral,
+   *  warm = stronger red-channel grain (e.g. warm film stocks) */
+  tint?: { hex: string; rgb: [number, number, number] };
+  /** Grain strength in five equal luminance bands, shadows → highlights,
+   *  relative to the strongest band (1).  Film grain typically fades in
+   *  the highlights; digital overlays are flat.  Absent when there is
+   *  no grain to speak of. */
+  luminanceResponse?: number[];
+  /** Spectrum analysis of the grain — absent when the image is too small
+   *  or has no grain to speak of (negligible intensity). */
+  spectrum?: NoiseSpectrum;
+  /** Number of full-resolution tiles the grain was measured on.
+   *  Absent when measured on the (downscaled) analysis image. */
+  tiles?: number;
+}
+
+/** Power-spectrum description of the grain (high-pass residual). */
+export interface NoiseSpectrum {
+  /** Power-weighted mean spatial frequency, cycles per pixel (0-0.5).
+   *  Higher = finer grain. */
+  dominantFrequency: number;
+  /** Log-log slope of the radially averaged power.  ~0 = white grain,
+   *  negative = clumpy / soft grain dominated by low frequencies. */
+  slope: number;
+  /** Directionality, 0 = isotropic, 1 = all energy in one direction */
+  anisotropy: number;
+  /** Direction the grain streaks run, degrees (0 = horizontal, 90 = vertical) */
+  angle: number;
+  /** Isotropic grain, periodic scanlines, or broadband streaks (brushed metal) */
+  pattern: "isotropic" | "scanlines" | "streaks";
 }
 
 /** Blur characteristics detected in the image. */
@@ -44,19 +117,103 @@ export interface BlurInfo {
   level: "none" | "light" | "medium" | "heavy";
   /** Laplacian variance (lower = blurrier), normalised 0-1 */
   variance: number;
+  /** Coarse depth-of-field map of measured edge blur. */
+  depthMap?: BlurDepthMap;
 }
 
-/** Vignette (edge-darkening) characteristics. */
+/**
+ * Grid of local blur measurements, row-major from the top-left cell.
+ * Each value is the median edge blur (Gaussian σ) in that cell as a
+ * fraction of the long edge — small = in focus, large = out of focus —
+ * or null where the cell has too few edges to measure.
+ */
+export interface BlurDepthMap {
+  columns: number;
+  rows: number;
+  radius: Array<number | null>;
+}
+
+/** Vignette (edge-darkening or edge-brightening) characteristics. */
 export interface VignetteInfo {
   detected: boolean;
-  /** Strength of vignette, 0-1 */
-  strength: number;
+  /** Strength of vignette, 0-1.  This and the fields below are only
+   *  present when a vignette was detected. */
+  strength?: number;
+  /** "dark" = edges darker than the centre, "bright" = inverse vignette
+   *  (glowing edges around a darker centre) */
+  type?: "dark" | "bright";
+  /** Centre of the vignette ellipse, normalised 0-1 per axis */
+  center?: { x: number; y: number };
+  /** Horizontal / vertical radius ratio in per-axis units.
+   *  1 = ellipse following the image's proportions. */
+  aspect?: number;
+  /** Where the falloff starts and reaches full strength, as fractions
+   *  (0-1) of the ellipse radius (which reaches the farthest corner) */
+  falloff?: { start: number; end: number };
+  /** Colour the edges fall off towards */
+  tint?: { hex: string; rgb: [number, number, number] };
+}
+
+/**
+ * A bright focal glow (sun flare, spotlight bloom) fitted with a radial
+ * falloff: brightness ∝ (1 - r / radius) ^ falloff.
+ */
+export interface GlowInfo {
+  /** Core colour of the glow */
+  hex: string;
+  rgb: [number, number, number];
+  /** Glow centre, normalised 0-1 per axis */
+  position: { x: number; y: number };
+  /** Radius at which the glow fades out, as a fraction of the image's long edge */
+  radius: number;
+  /** How far the core rises above its surroundings, 0-1 */
+  intensity: number;
+  /** Falloff exponent.  > 1 = tight core with a long soft tail,
+   *  < 1 = broad plateau with a quick drop at the rim. */
+  falloff: number;
+}
+
+/** Alpha-channel characteristics of the reference image. */
+export interface TransparencyInfo {
+  /** True when at least 1% of the reference's pixels are not fully opaque */
+  detected: boolean;
+  /** Fraction of pixels that are not fully opaque, 0-1 */
+  coverage: number;
 }
 
 /** Overall mood / temperature summary. */
 export interface MoodInfo {
   temperature: "cool" | "neutral" | "warm";
   brightness: "dark" | "medium-dark" | "medium" | "medium-bright" | "bright";
+  /** Circular mean hue of the saturated pixels, degrees 0-360.
+   *  Absent for (nearly) greyscale images. */
+  hue?: number;
+  /** Circular spread of those hues, 0 = one hue, 1 = evenly spread */
+  hueSpread?: number;
+  /** Mean HSL saturation, 0 = greyscale, 1 = fully vivid */
+  saturation?: number;
+  /** Luminance range between the 5th and 95th percentiles, 0-1 */
+  contrast?: number;
+  /** Relationship between the dominant hues */
+  harmony?:
+    | "monochrome"
+    | "analogous"
+    | "complementary"
+    | "split-complementary"
+    | "triadic"
+    | "complex";
+  /** Dominant hues, largest share first */
+  hues?: NamedHue[];
+}
+
+/** A dominant hue sector of the palette. */
+export interface NamedHue {
+  /** Colour name of the 30° hue sector, e.g. "orange", "azure" */
+  name: string;
+  /** Mean hue within the sector, degrees */
+  hue: number;
+  /** Share of the saturation-weighted saturated pixels, 0-1 */
+  share: number;
 }
 
 /** A 2D point, normalised 0-1 relative to image dimensions. */
@@ -75,8 +232,10 @@ export type ShapeType =
   | "petal";
 
 /**
- * A detected shape contour — provides hints for SVG path generation.
- * The AI agent uses these as scaffolding but writes the actual bezier paths.
+ * A detected shape contour: its archetype and parameters, plus `path`,
+ * the region's traced outline as a closed Catmull-Rom bézier.  The
+ * generator draws `path` directly and falls back to a template built
+ * from the parameters when it is absent.
  */
 export interface ShapeContour {
   /** Which shape archetype this contour matches */
@@ -109,6 +268,10 @@ export interface ShapeContour {
   color: string;
   /** Opacity, 0-1 */
   opacity: number;
+  /** Traced outline of the region as SVG path data, normalised 0-1 per
+   *  axis (viewBox="0 0 1 1", preserveAspectRatio="none"); holes are
+   *  extra subpaths, so fill with fill-rule="evenodd". */
+  path?: string;
 }
 
 /** Summary of dominant shape style. */
@@ -130,6 +293,53 @@ export interface ShapeInfo {
   style: ShapeStyle;
   /** Extracted simplified contour descriptors */
   contours: ShapeContour[];
+  /** Coarse grid of local flow, for references whose motion varies */
+  flowField?: FlowField;
+}
+
+/**
+ * Grid of local flow, row-major from the top-left cell.  Each cell has
+ * the orientation its colours flow along (degrees, 0-180: 0 = right,
+ * 90 = down; perpendicular to the luminance gradient) and how strongly
+ * they agree on it, 0 (flat or turbulent) to 1 (one clear direction).
+ */
+export interface FlowField {
+  columns: number;
+  rows: number;
+  angle: number[];
+  strength: number[];
+}
+
+/** A colour stop sampled from the reference along the base gradient axis. */
+export interface GradientStop {
+  /** Hex color string, e.g. "#B87333" */
+  hex: string;
+  /** RGB components [0-255] */
+  rgb: [number, number, number];
+  /** Position along the gradient line, 0-1 */
+  position: number;
+  /** Colour error this stop removes from a straight blend, 0-1.
+   *  The two end stops are 1.  Lower-fidelity output drops the least
+   *  significant stops first. */
+  significance: number;
+}
+
+/** Colour profile along the dominant gradient axis, for the base layer. */
+export interface BaseProfile {
+  /** CSS linear-gradient angle in degrees (0 = to top, 90 = to right) */
+  angle: number;
+  /** Simplified stops, ordered by position */
+  stops: GradientStop[];
+}
+
+/** Result of automatic cluster-count selection ("--clusters auto"). */
+export interface ClusterSelection {
+  /** Number of colour clusters chosen */
+  k: number;
+  /** Mean silhouette score of the chosen clustering, -1 to 1 (higher = better separated) */
+  score: number;
+  /** Inclusive [min, max] range of k that was evaluated, set by fidelity */
+  range: [number, number];
 }
 
 /** Which CSS generation strategy to use. */
@@ -138,20 +348,75 @@ export type GradientStrategy = "simple" | "mesh" | "hybrid" | "organic";
 /** The full gradient specification output by the analyzer. */
 export interface GradientSpec {
   colors: ColorRegion[];
+  /** Which regions touch and the colours where they meet, longest
+   *  shared border first. */
+  adjacency?: RegionAdjacency[];
   noise: NoiseInfo;
   blur: BlurInfo;
   vignette: VignetteInfo;
+  /** Bright focal glows, strongest first (empty when none). */
+  glows?: GlowInfo[];
+  /** Alpha-channel report.  Transparent pixels are ignored by analysis. */
+  transparency?: TransparencyInfo;
+  /** Original image size (of the cropped area when cropped).  All
+   *  normalised 0-1 positions are per-axis fractions of these dimensions. */
   dimensions: { width: number; height: number };
+  /** Region of the original image that was analysed — present when cropped. */
+  crop?: PixelRect;
   mood: MoodInfo;
+  /** Multi-stop colour profile for the base gradient. */
+  baseProfile?: BaseProfile;
   /** Recommended CSS generation strategy based on image characteristics. */
   strategy: GradientStrategy;
   /** Shape analysis — present when organic shapes detected. */
   shapes?: ShapeInfo;
+  /** Automatic cluster-count report — present when clusters = "auto". */
+  clusterSelection?: ClusterSelection;
+}
+
+/** Raw, already-decoded RGBA pixels (4 bytes per pixel, row-major). */
+export interface RawPixels {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * An image to analyse: a file path, encoded image bytes (a Buffer or
+ * Uint8Array in any supported format), or raw RGBA pixels.
+ */
+export type ImageInput = string | Uint8Array | RawPixels;
+
+/** A crop coordinate: pixels, or a percentage of the image like "25%". */
+export type CropValue = number | `${number}%`;
+
+/** Region of interest to analyse, applied before resizing. */
+export interface CropRegion {
+  x: CropValue;
+  y: CropValue;
+  width: CropValue;
+  height: CropValue;
+}
+
+/** A resolved crop rectangle in original-image pixels. */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 /** Fidelity level that controls generation detail. */
 export type FidelityLevel = "exact" | "vibe" | "inspired";
 
+/**
+ * Colour space used for k-means clustering distances.
+ *  - "rgb"   — plain Euclidean sRGB distance (default, original behaviour)
+ *  - "oklab" — OKLab ΔE, perceptually uniform hue/lightness steps
+ *  - "lab"   — CIELAB ΔE76
+ */
+export type ColorSpace = "rgb" | "oklab" | "lab";
+
 /** Options for the CSS generator. */
 export interface GeneratorOptions {
   /** CSS selector / class name for the container */
@@ -160,4 +425,7 @@ export interface GeneratorOptions {
   fidelity: FidelityLevel;
   /** Border radius to apply, e.g. "16px" */
   borderRadius?: string;
+  /** Leave the container background transparent instead of painting an
+   *  opaque base gradient.  Defaults to `spec.transparency.detected`. */
+  transparentBackground?: boolean;
 }
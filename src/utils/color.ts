@@ -2,6 +2,8 @@
  * Color conversion utilities.
  */
 
+import { ColorSpace } from "../types";
+
 export function rgbToHex(r: number, g: number, b: number): string {
   return (
     "#" +
@@ -48,7 +50,10 @@ export function luminance(r: number, g: number, b: number): number {
   return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
 }
 
-/** Euclidean distance between two RGB colors. */
+/**
+ * Euclidean distance between two colours.  Works for RGB triples and for
+ * coordinates from `toColorSpace` (where it is the space's ΔE).
+ */
 export function colorDistance(
   a: [number, number, number],
   b: [number, number, number]
@@ -57,3 +62,93 @@ export function colorDistance(
     (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
   );
 }
+
+/* ── Perceptual colour spaces ─────────────────────────────────────── */
+
+/** Linearise an sRGB channel (0-255) to 0-1. */
+function srgbToLinear(c: number): number {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+/** Convert sRGB to OKLab. Returns [L 0-1, a, b]. */
+export function rgbToOklab(
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+/** Convert sRGB to CIELAB (D65 white point). Returns [L 0-100, a, b]. */
+export function rgbToLab(
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  // Linear sRGB → XYZ, normalised by the D65 reference white
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb;
+  const z = (0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / 1.08883;
+
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Convert an RGB colour into the coordinates of the given colour space.
+ * Euclidean distance between two converted colours is the space's ΔE
+ * (ΔE76 for CIELAB, ΔEok for OKLab, plain RGB distance for "rgb").
+ */
+export function toColorSpace(
+  rgb: [number, number, number],
+  space: ColorSpace
+): [number, number, number] {
+  switch (space) {
+    case "oklab":
+      return rgbToOklab(rgb[0], rgb[1], rgb[2]);
+    case "lab":
+      return rgbToLab(rgb[0], rgb[1], rgb[2]);
+    case "rgb":
+    default:
+      return [rgb[0], rgb[1], rgb[2]];
+  }
+}
+
+/**
+ * Nominal full-scale range of one colour-space axis.  Used to put
+ * non-colour features (e.g. normalised pixel position) on a comparable
+ * scale to colour distances.
+ */
+export function colorSpaceRange(space: ColorSpace): number {
+  switch (space) {
+    case "oklab":
+      return 1;
+    case "lab":
+      return 100;
+    case "rgb":
+    default:
+      return 255;
+  }
+}
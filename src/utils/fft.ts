@@ -0,0 +1,90 @@
+/**
+ * Fast Fourier transform utilities (radix-2, power-of-two sizes only).
+ */
+
+/** Largest power of two that is ≤ n (0 for n < 1). */
+export function floorPowerOfTwo(n: number): number {
+  if (n < 1) return 0;
+  return 2 ** Math.floor(Math.log2(n));
+}
+
+/**
+ * In-place iterative Cooley-Tukey FFT.  `re` and `im` must have the same
+ * power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum |F(u, v)|² of a size×size real signal (row-major).
+ * The result is unshifted: index k maps to frequency k for k < size/2
+ * and k - size otherwise.
+ */
+export function powerSpectrum2D(values: Float64Array, size: number): Float64Array {
+  const re = Float64Array.from(values);
+  const im = new Float64Array(size * size);
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+
+  // Rows
+  for (let y = 0; y < size; y++) {
+    const offset = y * size;
+    rowRe.set(re.subarray(offset, offset + size));
+    rowIm.set(im.subarray(offset, offset + size));
+    fft(rowRe, rowIm);
+    re.set(rowRe, offset);
+    im.set(rowIm, offset);
+  }
+
+  // Columns
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm);
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+
+  const power = new Float64Array(size * size);
+  for (let i = 0; i < power.length; i++) power[i] = re[i] ** 2 + im[i] ** 2;
+  return power;
+}
@@ -1,60 +1,288 @@
 /**
  * Image loading utilities using jimp (pure JS, zero native deps).
  * Only the formats and plugins GradientBro needs are loaded.
+ * jimp has no pure-JS WebP codec, so WebP is decoded separately by
+ * image-in-browser (also pure JS), loaded on first use.
  */
+import * as fs from "fs";
 import { createJimp } from "@jimp/core";
 import png from "@jimp/js-png";
 import jpeg from "@jimp/js-jpeg";
+import gif from "@jimp/js-gif";
+import bmp from "@jimp/js-bmp";
+import tiff from "@jimp/js-tiff";
 import * as resize from "@jimp/plugin-resize";
+import * as crop from "@jimp/plugin-crop";
+import { ImageInput, CropRegion, CropValue, PixelRect } from "../types";
 
-const Jimp = createJimp({ formats: [png, jpeg], plugins: [resize.methods] });
+const Jimp = createJimp({
+  formats: [png, jpeg, gif, bmp, tiff],
+  plugins: [resize.methods, crop.methods],
+});
+
+/** Image formats GradientBro can decode. */
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif" | "bmp" | "tiff";
+
+const SUPPORTED_FORMATS = "PNG, JPEG, WebP, GIF (first frame), BMP, TIFF";
+
+/** DIB header sizes of the BMP variants in use. */
+const BMP_DIB_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+/**
+ * Identify an encoded image from its magic bytes.
+ * Returns null when the data isn't a supported format.
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+
+  if (
+    bytes.length >= 8 &&
+    bytes[0] === 0x89 &&
+    ascii(1, 4) === "PNG" &&
+    bytes[4] === 0x0d &&
+    bytes[5] === 0x0a
+  ) {
+    return "png";
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg";
+  }
+  if (bytes.length >= 12 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (bytes.length >= 6 && (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a")) {
+    return "gif";
+  }
+  if (bytes.length >= 18 && ascii(0, 2) === "BM") {
+    // "BM" alone is common in text; require the header's file size to
+    // match and a known DIB header size (core, info, v2-v5, OS/2 v2)
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const fileSize = view.getUint32(2, true);
+    const dibSize = view.getUint32(14, true);
+    if (fileSize === bytes.length && BMP_DIB_HEADER_SIZES.includes(dibSize)) {
+      return "bmp";
+    }
+  }
+  if (
+    bytes.length >= 4 &&
+    ((ascii(0, 2) === "II" && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+      (ascii(0, 2) === "MM" && bytes[2] === 0x00 && bytes[3] === 0x2a))
+  ) {
+    return "tiff";
+  }
+  return null;
+}
+
+/** Decode encoded image bytes into a jimp instance, sniffing the format. */
+async function decodeImage(bytes: Buffer) {
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new Error(
+      `Unsupported image format. Supported formats: ${SUPPORTED_FORMATS}`
+    );
+  }
+
+  if (format === "webp") {
+    // image-in-browser is ESM-only, so it is imported dynamically
+    const { decodeWebP, ChannelOrder } = await import("image-in-browser");
+    const decoded = decodeWebP({ data: bytes });
+    if (!decoded) throw new Error("Could not decode WebP image");
+    const rgba = decoded
+      .convert({ numChannels: 4 })
+      .getBytes({ order: ChannelOrder.rgba });
+    return Jimp.fromBitmap({
+      data: Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength),
+      width: decoded.width,
+      height: decoded.height,
+    });
+  }
+
+  return Jimp.fromBuffer(bytes);
+}
+
+/** Read any supported ImageInput into a jimp instance. */
+async function readImage(input: ImageInput) {
+  if (typeof input === "string") {
+    return decodeImage(await fs.promises.readFile(input));
+  }
+
+  if (input instanceof Uint8Array) {
+    return decodeImage(Buffer.from(input));
+  }
+
+  const { data, width, height } = input;
+  if (data.length !== width * height * 4) {
+    throw new Error(
+      `Raw pixel data must be RGBA (width × height × 4 = ${width * height * 4} bytes), got ${data.length}`
+    );
+  }
+  return Jimp.fromBitmap({ data: Buffer.from(data), width, height });
+}
 
 export interface RawImageData {
   /** Raw pixel buffer, 3 bytes per pixel (RGB) */
   data: Buffer;
+  /** Alpha channel, 1 byte per pixel (255 = fully opaque) */
+  alpha: Buffer;
+  /** True when at least one pixel is not fully opaque */
+  hasAlpha: boolean;
   width: number;
   height: number;
-  /** Original image dimensions before resize */
+  /** Original image dimensions before resize (after cropping, if any) */
   originalWidth: number;
   originalHeight: number;
+  /** Crop applied to the source image, in its original pixels */
+  crop?: PixelRect;
+  /** The (cropped) source pixels before resizing — present when the
+   *  analysis image was scaled down.  Used by analysers that need
+   *  full-resolution detail, such as grain measurement. */
+  native?: RawImageData;
+}
+
+/** Resolve a crop coordinate against the image dimension it refers to. */
+function resolveCropValue(value: CropValue, extent: number): number {
+  if (typeof value === "string") {
+    return Math.round((parseFloat(value) / 100) * extent);
+  }
+  return Math.round(value);
+}
+
+/**
+ * Resolve a crop region to whole pixels, clamped to the image bounds.
+ * Throws when the clamped region is empty.
+ */
+export function resolveCrop(
+  region: CropRegion,
+  width: number,
+  height: number
+): PixelRect {
+  const x = Math.max(0, Math.min(width, resolveCropValue(region.x, width)));
+  const y = Math.max(0, Math.min(height, resolveCropValue(region.y, height)));
+  const w = Math.min(width - x, resolveCropValue(region.width, width));
+  const h = Math.min(height - y, resolveCropValue(region.height, height));
+
+  if (!(w > 0 && h > 0)) {
+    throw new Error(
+      `Crop region is empty or outside the ${width}×${height} image`
+    );
+  }
+  return { x, y, width: w, height: h };
 }
 
+/** Smallest short edge after resizing, so 3×3 / 5×5 kernels still fit. */
+const MIN_SHORT_EDGE = 8;
+
 /**
- * Load an image and return raw RGB pixel data at the given size.
- * Resizing to a small size (e.g. 100x100) makes analysis fast.
+ * Load an image (file path, encoded bytes or raw RGBA pixels), optionally
+ * crop it to a region of interest, and return raw RGB pixel data at the
+ * given size.
+ * The long edge is resized to `resizeTo` (or further, when the short
+ * edge would otherwise drop below MIN_SHORT_EDGE) and the aspect ratio
+ * is kept, so normalised 0-1 positions map straight back to the
+ * original dimensions.  Resizing to a small size (e.g. 100px) makes analysis fast.
  */
 export async function loadImage(
-  imagePath: string,
-  resizeTo: number = 100
+  input: ImageInput,
+  resizeTo: number = 100,
+  cropRegion?: CropRegion
 ): Promise<RawImageData> {
-  const image = await Jimp.read(imagePath);
+  const image = await readImage(input);
+
+  // Crop before resizing so the region keeps its full source detail
+  let cropRect: PixelRect | undefined;
+  if (cropRegion) {
+    cropRect = resolveCrop(cropRegion, image.width, image.height);
+    image.crop({ x: cropRect.x, y: cropRect.y, w: cropRect.width, h: cropRect.height });
+  }
+
   const originalWidth = image.width;
   const originalHeight = image.height;
 
-  // Resize to target dimensions
-  image.resize({ w: resizeTo, h: resizeTo });
+  // Resize so the long edge matches the analysis size, keeping the
+  // full-resolution pixels when that scales the image down.  Thin images
+  // are clamped by their short edge instead, with one scale for both
+  // axes so the aspect ratio survives.
+  const scale = Math.max(
+    resizeTo / Math.max(originalWidth, originalHeight),
+    MIN_SHORT_EDGE / Math.min(originalWidth, originalHeight)
+  );
+  const native = scale < 1 ? toRawImageData(image.bitmap) : undefined;
+  image.resize({
+    w: Math.max(1, Math.round(originalWidth * scale)),
+    h: Math.max(1, Math.round(originalHeight * scale)),
+  });
 
-  const width = image.bitmap.width;
-  const height = image.bitmap.height;
+  return {
+    ...toRawImageData(image.bitmap),
+    originalWidth,
+    originalHeight,
+    crop: cropRect,
+    native,
+  };
+}
 
-  // Convert RGBA (4 bytes/pixel from jimp) to RGB (3 bytes/pixel)
-  const rgba = image.bitmap.data;
+/**
+ * Split a jimp RGBA bitmap (4 bytes/pixel) into RGB (3 bytes/pixel) + alpha.
+ * The original size defaults to the bitmap's own size.
+ */
+function toRawImageData(bitmap: {
+  data: Buffer | Uint8Array;
+  width: number;
+  height: number;
+}): RawImageData {
+  const { width, height } = bitmap;
+  const rgba = bitmap.data;
   const rgb = Buffer.alloc(width * height * 3);
-  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+  const alpha = Buffer.alloc(width * height);
+  let hasAlpha = false;
+  for (let i = 0, j = 0, k = 0; i < rgba.length; i += 4, j += 3, k++) {
     rgb[j] = rgba[i]; // R
     rgb[j + 1] = rgba[i + 1]; // G
     rgb[j + 2] = rgba[i + 2]; // B
+    alpha[k] = rgba[i + 3]; // A
+    if (rgba[i + 3] < 255) hasAlpha = true;
   }
 
   return {
     data: rgb,
+    alpha,
+    hasAlpha,
     width,
     height,
-    originalWidth,
-    originalHeight,
+    originalWidth: width,
+    originalHeight: height,
   };
 }
 
+/**
+ * Scale factors from the per-axis normalised 0-1 coordinates used in
+ * the spec to isotropic coordinates (long edge spans 0-1): multiply to
+ * go isotropic, divide to come back.  Square images have sx = sy = 1.
+ * Distances and angles are only meaningful in isotropic coordinates on
+ * non-square images.
+ */
+export interface AspectFrame {
+  sx: number;
+  sy: number;
+}
+
+export function aspectFrame(img: RawImageData): AspectFrame {
+  const longEdge = Math.max(img.width, img.height) - 1 || 1;
+  return {
+    sx: (img.width - 1) / longEdge || 1,
+    sy: (img.height - 1) / longEdge || 1,
+  };
+}
+
+/** Pixels below this alpha are treated as transparent and ignored. */
+const OPAQUE_THRESHOLD = 128;
+
+/** Whether the pixel at (x, y) is opaque enough to analyse. */
+export function isOpaque(img: RawImageData, x: number, y: number): boolean {
+  return img.alpha[y * img.width + x] >= OPAQUE_THRESHOLD;
+}
+
 /** Get pixel RGB at (x, y). */
 export function getPixel(
   img: RawImageData,
@@ -0,0 +1,64 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { fft, floorPowerOfTwo, powerSpectrum2D } = require("../dist/utils/fft");
+
+test("floorPowerOfTwo rounds down to a power of two", () => {
+  assert.equal(floorPowerOfTwo(0), 0);
+  assert.equal(floorPowerOfTwo(1), 1);
+  assert.equal(floorPowerOfTwo(100), 64);
+  assert.equal(floorPowerOfTwo(128), 128);
+});
+
+test("fft of an impulse is flat", () => {
+  const re = new Float64Array(8);
+  const im = new Float64Array(8);
+  re[0] = 1;
+  fft(re, im);
+  for (let k = 0; k < 8; k++) {
+    assert.ok(Math.abs(re[k] - 1) < 1e-12);
+    assert.ok(Math.abs(im[k]) < 1e-12);
+  }
+});
+
+test("fft puts a cosine's energy in its two frequency bins", () => {
+  const n = 16;
+  const re = Float64Array.from({ length: n }, (_, i) => Math.cos((2 * Math.PI * 3 * i) / n));
+  const im = new Float64Array(n);
+  fft(re, im);
+  for (let k = 0; k < n; k++) {
+    const magnitude = Math.hypot(re[k], im[k]);
+    const expected = k === 3 || k === n - 3 ? n / 2 : 0;
+    assert.ok(Math.abs(magnitude - expected) < 1e-9, `bin ${k}: ${magnitude}`);
+  }
+});
+
+test("fft preserves energy (Parseval)", () => {
+  const n = 32;
+  const signal = Array.from({ length: n }, (_, i) => Math.sin(i * 1.7) + (i % 5) / 5);
+  const re = Float64Array.from(signal);
+  const im = new Float64Array(n);
+  fft(re, im);
+  const timeEnergy = signal.reduce((sum, v) => sum + v * v, 0);
+  let freqEnergy = 0;
+  for (let k = 0; k < n; k++) freqEnergy += re[k] ** 2 + im[k] ** 2;
+  assert.ok(Math.abs(freqEnergy / n - timeEnergy) < 1e-9);
+});
+
+test("powerSpectrum2D of a constant has only a DC term", () => {
+  const size = 8;
+  const power = powerSpectrum2D(new Float64Array(size * size).fill(2), size);
+  assert.ok(Math.abs(power[0] - (2 * size * size) ** 2) < 1e-6);
+  for (let i = 1; i < power.length; i++) assert.ok(power[i] < 1e-9);
+});
+
+test("powerSpectrum2D places horizontal stripes on the vertical frequency axis", () => {
+  const size = 16;
+  const values = Float64Array.from({ length: size * size }, (_, i) =>
+    Math.cos((2 * Math.PI * 2 * Math.floor(i / size)) / size)
+  );
+  const power = powerSpectrum2D(values, size);
+  let peak = 0;
+  for (let i = 1; i < power.length; i++) if (power[i] > power[peak]) peak = i;
+  assert.equal(peak % size, 0, "no horizontal frequency");
+  assert.ok([2, size - 2].includes(Math.floor(peak / size)));
+});
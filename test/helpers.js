@@ -0,0 +1,52 @@
+/**
+ * Shared fixtures for the unit tests: small synthetic images built in
+ * memory, so no test depends on image files.
+ */
+
+/**
+ * An opaque RawImageData whose pixel colours come from `pixel(x, y)`,
+ * which returns [r, g, b].
+ */
+function rawImage(width, height, pixel) {
+  const data = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      const i = (y * width + x) * 3;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+  return {
+    data,
+    alpha: Buffer.alloc(width * height, 255),
+    hasAlpha: false,
+    width,
+    height,
+    originalWidth: width,
+    originalHeight: height,
+  };
+}
+
+/**
+ * An assignment map (Int32Array, row-major) from rows of characters:
+ * digits are region indices and "." is transparent.
+ */
+function assignmentMap(rows) {
+  const width = rows[0].length;
+  const map = new Int32Array(width * rows.length);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; x++) {
+      map[y * width + x] = row[x] === "." ? -1 : Number(row[x]);
+    }
+  });
+  return { map, width, height: rows.length };
+}
+
+/** Number of subpaths (outlines and holes) in an SVG path string. */
+function subpathCount(path) {
+  return (path.match(/M/g) || []).length;
+}
+
+module.exports = { rawImage, assignmentMap, subpathCount };
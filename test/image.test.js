@@ -0,0 +1,81 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const { detectImageFormat, loadImage } = require("../dist/utils/image");
+
+/** 2×2 red PNG. */
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAIAAAACCAYAAABytg0kAAAAE0lEQVR4AWP8z8DwnwEImBigAAAfFwICgH3ifwAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+/** 1×1 lossy WebP (mid grey). */
+const WEBP_LOSSY = Buffer.from("UklGRiIAAABXRUJQVlA4IBYAAAAwAQCdASoBAAEADsD+JaQAA3AAAAAA", "base64");
+
+/** 1×1 lossless WebP (fully transparent). */
+const WEBP_LOSSLESS = Buffer.from("UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==", "base64");
+
+/** A minimal BMP header: "BM", file size, reserved, pixel offset, DIB size. */
+function bmpHeader(fileSize, dibSize) {
+  const bytes = Buffer.alloc(fileSize);
+  bytes.write("BM", 0, "ascii");
+  bytes.writeUInt32LE(fileSize, 2);
+  bytes.writeUInt32LE(54, 10);
+  bytes.writeUInt32LE(dibSize, 14);
+  return bytes;
+}
+
+test("detectImageFormat recognises each format by its magic bytes", () => {
+  assert.equal(detectImageFormat(PNG), "png");
+  assert.equal(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), "jpeg");
+  assert.equal(detectImageFormat(WEBP_LOSSY), "webp");
+  assert.equal(detectImageFormat(Buffer.from("GIF89a\0\0", "latin1")), "gif");
+  assert.equal(detectImageFormat(bmpHeader(60, 40)), "bmp");
+  assert.equal(detectImageFormat(Buffer.from([0x49, 0x49, 0x2a, 0x00])), "tiff");
+  assert.equal(detectImageFormat(Buffer.from([0x4d, 0x4d, 0x00, 0x2a])), "tiff");
+});
+
+test("detectImageFormat rejects text and truncated headers", () => {
+  assert.equal(detectImageFormat(Buffer.from("hello")), null);
+  assert.equal(detectImageFormat(Buffer.from("BM is a text file, not a bitmap")), null);
+  assert.equal(detectImageFormat(bmpHeader(60, 99)), null);
+  assert.equal(detectImageFormat(Buffer.from("RIFF")), null);
+  assert.equal(detectImageFormat(new Uint8Array(0)), null);
+});
+
+test("loadImage decodes from the contents, not the file extension", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "gradient-bro-")), "red.jpg");
+  fs.writeFileSync(file, PNG);
+  try {
+    const img = await loadImage(file);
+    assert.equal(img.originalWidth, 2);
+    assert.equal(img.originalHeight, 2);
+    assert.deepEqual([...img.data.subarray(0, 3)], [255, 0, 0]);
+  } finally {
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+});
+
+test("loadImage decodes lossy and lossless WebP bytes", async () => {
+  const lossy = await loadImage(WEBP_LOSSY);
+  assert.equal(lossy.originalWidth, 1);
+  assert.equal(lossy.hasAlpha, false);
+
+  const lossless = await loadImage(new Uint8Array(WEBP_LOSSLESS));
+  assert.equal(lossless.originalWidth, 1);
+  assert.equal(lossless.hasAlpha, true);
+});
+
+test("loadImage rejects unsupported data with the supported formats", async () => {
+  await assert.rejects(loadImage(Buffer.from("hello")), /Unsupported image format.*WebP/);
+});
+
+test("loadImage keeps the aspect ratio of thin images", async () => {
+  const width = 400;
+  const height = 4;
+  const img = await loadImage({ data: new Uint8Array(width * height * 4).fill(255), width, height });
+  assert.equal(img.height, 8);
+  assert.equal(img.width, 800);
+});
@@ -0,0 +1,98 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { traceRegionPath } = require("../dist/analyzer/path-tracer");
+const { assignmentMap, subpathCount } = require("./helpers");
+
+/** Every coordinate in the path, as numbers. */
+function coordinates(path) {
+  return (path.match(/-?\d+(\.\d+)?/g) || []).map(Number);
+}
+
+test("a square traces to one closed, normalised outline", () => {
+  const { map, width, height } = assignmentMap([
+    "00000000",
+    "01111000",
+    "01111000",
+    "01111000",
+    "01111000",
+    "00000000",
+  ]);
+  const path = traceRegionPath(map, width, height, 1, "exact");
+  assert.ok(path);
+  assert.equal(subpathCount(path), 1);
+  assert.ok(path.trim().endsWith("Z"));
+  for (const v of coordinates(path)) assert.ok(v >= 0 && v <= 1);
+});
+
+test("blocks touching at a corner (saddle) join into one outline", () => {
+  const { map, width, height } = assignmentMap([
+    "0000000000",
+    "0111100000",
+    "0111100000",
+    "0111100000",
+    "0111100000",
+    "0000011110",
+    "0000011110",
+    "0000011110",
+    "0000011110",
+    "0000000000",
+  ]);
+  const path = traceRegionPath(map, width, height, 1, "exact");
+  assert.ok(path);
+  assert.equal(subpathCount(path), 1);
+});
+
+test("the other saddle orientation also joins its inside corners", () => {
+  const { map, width, height } = assignmentMap([
+    "0000000000",
+    "0000011110",
+    "0000011110",
+    "0000011110",
+    "0000011110",
+    "0111100000",
+    "0111100000",
+    "0111100000",
+    "0111100000",
+    "0000000000",
+  ]);
+  const path = traceRegionPath(map, width, height, 1, "exact");
+  assert.ok(path);
+  assert.equal(subpathCount(path), 1);
+});
+
+test("a checkerboard of single-pixel saddles still traces", () => {
+  const rows = [];
+  for (let y = 0; y < 8; y++) {
+    let row = "";
+    for (let x = 0; x < 8; x++) row += (x + y) % 2;
+    rows.push(row);
+  }
+  const { map, width, height } = assignmentMap(rows);
+  for (const region of [0, 1]) {
+    const path = traceRegionPath(map, width, height, region, "exact");
+    assert.ok(path, `region ${region}`);
+    assert.ok(subpathCount(path) >= 1);
+  }
+});
+
+test("a ring traces its hole as a second subpath", () => {
+  const { map, width, height } = assignmentMap([
+    "000000000",
+    "011111110",
+    "011111110",
+    "011000110",
+    "011000110",
+    "011000110",
+    "011111110",
+    "011111110",
+    "000000000",
+  ]);
+  const path = traceRegionPath(map, width, height, 1, "exact");
+  assert.ok(path);
+  assert.equal(subpathCount(path), 2);
+});
+
+test("missing regions and transparent pixels give no path", () => {
+  const { map, width, height } = assignmentMap(["....", "....", "...."]);
+  assert.equal(traceRegionPath(map, width, height, 0), null);
+});
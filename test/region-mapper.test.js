@@ -0,0 +1,39 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { detectVignette } = require("../dist/analyzer/region-mapper");
+const { detectGlows } = require("../dist/analyzer/glow-detector");
+const { rawImage } = require("./helpers");
+
+const clamp = (v) => Math.max(0, Math.min(255, Math.round(v)));
+
+test("a flat image has no vignette and reports nothing else", () => {
+  const img = rawImage(60, 40, () => [120, 90, 140]);
+  assert.deepEqual(detectVignette(img), { detected: false });
+});
+
+test("a linear gradient is not a vignette", () => {
+  const img = rawImage(60, 40, (x) => [clamp(40 + x * 3), 80, 120]);
+  assert.deepEqual(detectVignette(img), { detected: false });
+});
+
+test("a single off-centre glow is not reported as a vignette", () => {
+  const img = rawImage(96, 64, (x, y) => {
+    const g = Math.exp(-((x - 34) ** 2 + (y - 26) ** 2) / (2 * 10 ** 2));
+    return [clamp(30 + 200 * g), clamp(30 + 180 * g), clamp(50 + 150 * g)];
+  });
+  const glows = detectGlows(img);
+  assert.ok(glows.length > 0, "the glow itself is detected");
+  assert.deepEqual(detectVignette(img, glows), { detected: false });
+});
+
+test("darkened edges are detected as a dark vignette", () => {
+  const img = rawImage(80, 60, (x, y) => {
+    const d = Math.hypot(x / 79 - 0.5, y / 59 - 0.5) / Math.SQRT1_2;
+    const v = 1 - 0.8 * Math.max(0, Math.min(1, (d - 0.3) / 0.6));
+    return [clamp(160 * v), clamp(140 * v), clamp(170 * v)];
+  });
+  const vignette = detectVignette(img, detectGlows(img));
+  assert.equal(vignette.detected, true);
+  assert.equal(vignette.type, "dark");
+  assert.ok(vignette.strength > 0.5);
+});
@@ -0,0 +1,53 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { splitDisjointRegions } = require("../dist/analyzer/region-splitter");
+const { rawImage } = require("./helpers");
+
+const CLUSTERS = [
+  { hex: "#000000", rgb: [0, 0, 0], position: { x: 0.5, y: 0.5 }, weight: 0.5, spread: 0, edgeSharpness: 0 },
+  { hex: "#FFFFFF", rgb: [255, 255, 255], position: { x: 0.5, y: 0.5 }, weight: 0.5, spread: 0, edgeSharpness: 0 },
+];
+
+/** The principal axes of the pixels where `inside(x, y)` holds (cluster 1). */
+function axesOf(width, height, inside) {
+  const img = rawImage(width, height, () => [0, 0, 0]);
+  const assignments = new Int32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      assignments[y * width + x] = inside(x, y) ? 1 : 0;
+    }
+  }
+  const { regions } = splitDisjointRegions(img, CLUSTERS, assignments);
+  return regions.find((r) => r.hex === "#FFFFFF");
+}
+
+test("a horizontal bar has axisAngle 0 and a long major axis", () => {
+  const region = axesOf(80, 80, (x, y) => y >= 36 && y < 44 && x >= 10 && x < 70);
+  assert.equal(region.axisAngle, 0);
+  assert.ok(region.majorAxis > 3 * region.minorAxis);
+});
+
+test("a vertical bar has axisAngle 90", () => {
+  const region = axesOf(80, 80, (x, y) => x >= 36 && x < 44 && y >= 10 && y < 70);
+  assert.equal(region.axisAngle, 90);
+});
+
+test("a diagonal bar has axisAngle 45 (y down)", () => {
+  const region = axesOf(80, 80, (x, y) => Math.abs(x - y) < 4 && x > 5 && x < 75);
+  assert.equal(region.axisAngle, 45);
+});
+
+test("a bar tilted a fraction of a degree upwards wraps to 0, not 180", () => {
+  // Slope of -0.004 ≈ -0.23°: rounds to 0 only if rounded before wrapping
+  const region = axesOf(200, 40, (x, y) => Math.abs(y - (20 - 0.004 * (x - 100))) < 3);
+  assert.equal(region.axisAngle, 0);
+});
+
+test("axis angles stay within 0-179 for round regions", () => {
+  for (const size of [9, 10, 11, 20, 21]) {
+    const c = (size - 1) / 2;
+    const region = axesOf(size, size, (x, y) => Math.hypot(x - c, y - c) <= size / 3);
+    assert.ok(region.axisAngle >= 0 && region.axisAngle < 180, `${size}: ${region.axisAngle}`);
+    assert.ok(Math.abs(region.majorAxis - region.minorAxis) < 0.02);
+  }
+});